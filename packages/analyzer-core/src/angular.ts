@@ -0,0 +1,40 @@
+import * as ts from 'typescript';
+import { escapeRegExp, getDecorator, getStringProperty } from './syntax';
+
+/**
+ * Angular: `@Component` classes, the selectors they answer to and the template
+ * that may render other components.
+ */
+
+export interface AngularComponent {
+  selector?: string;
+  /** Inline `template` */
+  template?: string;
+  /** `templateUrl`, relative to the component's file */
+  templateUrl?: string;
+}
+
+/** The `@Component({...})` options of a class, or undefined when it isn't a component */
+export function getAngularComponent(classDecl: ts.ClassDeclaration): AngularComponent | undefined {
+  const options = getDecorator(classDecl, 'Component')?.arguments[0];
+  if (!options) return undefined;
+  if (!ts.isObjectLiteralExpression(options)) return {};
+  return {
+    selector: getStringProperty(options, 'selector'),
+    template: getStringProperty(options, 'template'),
+    templateUrl: getStringProperty(options, 'templateUrl'),
+  };
+}
+
+/** Element selectors in a selector list; attribute selectors (`[appTooltip]`) are directives */
+export function getElementSelectors(selector: string): string[] {
+  return selector
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => /^[a-z][\w-]*$/.test(s));
+}
+
+/** Whether `template` contains a `<selector>` element */
+export function templateRenders(template: string, selector: string): boolean {
+  return new RegExp(`<${escapeRegExp(selector)}[\\s/>]`).test(template);
+}
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { unwrapExpression } from './syntax';
+
+/**
+ * Config keys: environment variables and VS Code settings read in code, and the
+ * keys projects declare in `.env.example`-style files or `contributes.configuration`.
+ */
+
+/** `import.meta.env` fields Vite always provides */
+const VITE_BUILTIN_ENV = ['MODE', 'BASE_URL', 'PROD', 'DEV', 'SSR'];
+
+/** Set by the runtime or tooling, so never expected in `.env.example` */
+export const UNDECLARED_ENV_OK = ['NODE_ENV'];
+
+export interface ConfigRead {
+  kind: 'env' | 'vscode';
+  key: string;
+  filePath: string;
+  line: number;
+  /** `process.env` or `import.meta.env` */
+  source?: string;
+}
+
+export interface ConfigDeclaration {
+  kind: ConfigRead['kind'];
+  key: string;
+  filePath: string;
+  line: number;
+}
+
+/**
+ * Config reads: `process.env.KEY` (also `process.env['KEY']` and destructuring),
+ * `import.meta.env.KEY`, and VS Code `getConfiguration('section').get('key')`,
+ * directly or through a variable holding the configuration.
+ */
+export function findConfigReads(sourceFile: ts.SourceFile, filePath: string): ConfigRead[] {
+  const reads: ConfigRead[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  // `const config = vscode.workspace.getConfiguration('monoid-visualize')`
+  const sections = new Map<string, string>();
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const initializer = unwrapExpression(node.initializer);
+      if (ts.isIdentifier(node.name) && ts.isCallExpression(initializer)) {
+        const section = getConfigurationSection(initializer);
+        if (section !== undefined) sections.set(node.name.text, section);
+      }
+      const source = getEnvObject(initializer);
+      if (source && ts.isObjectBindingPattern(node.name)) {
+        for (const element of node.name.elements) {
+          const key = element.propertyName ?? element.name;
+          if (ts.isIdentifier(key) || ts.isStringLiteral(key)) {
+            reads.push({ kind: 'env', key: key.text, filePath, line: lineOf(element), source });
+          }
+        }
+      }
+    }
+
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      const source = getEnvObject(node.expression);
+      const key = ts.isPropertyAccessExpression(node)
+        ? node.name.text
+        : ts.isStringLiteralLike(node.argumentExpression)
+          ? node.argumentExpression.text
+          : undefined;
+      if (source && key && !(source === 'import.meta.env' && VITE_BUILTIN_ENV.includes(key))) {
+        reads.push({ kind: 'env', key, filePath, line: lineOf(node), source });
+      }
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ['get', 'has', 'inspect'].includes(node.expression.name.text) &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      const receiver = unwrapExpression(node.expression.expression);
+      const section = ts.isIdentifier(receiver)
+        ? sections.get(receiver.text)
+        : ts.isCallExpression(receiver)
+          ? getConfigurationSection(receiver)
+          : undefined;
+      if (section !== undefined) {
+        const key = node.arguments[0].text;
+        reads.push({ kind: 'vscode', key: section ? `${section}.${key}` : key, filePath, line: lineOf(node) });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return reads;
+}
+
+/** `os.environ["KEY"]`, `os.environ.get("KEY")`, `os.getenv("KEY")` in Python source */
+export function findPythonConfigReads(text: string, filePath: string): ConfigRead[] {
+  const envPattern = /\bos\s*\.\s*(?:environ\s*(?:\[|\.\s*get\s*\()|getenv\s*\()\s*[rfbu]?(['"])(\w+)\1/g;
+  return Array.from(text.matchAll(envPattern), (match) => ({
+    kind: 'env' as const,
+    key: match[2],
+    filePath,
+    line: text.slice(0, match.index).split('\n').length,
+  }));
+}
+
+/**
+ * Keys declared in a `.env.example`-style file, or in a `package.json`'s VS Code
+ * `contributes.configuration`. Throws when a `package.json` isn't valid JSON.
+ */
+export function parseConfigDeclarations(filePath: string, text: string): ConfigDeclaration[] {
+  const lines = text.split('\n');
+  if (path.posix.basename(filePath) !== 'package.json') {
+    return lines.flatMap((line, i) => {
+      const key = line.match(/^\s*(?:export\s+)?([A-Za-z_]\w*)\s*=/)?.[1];
+      return key ? [{ kind: 'env' as const, key, filePath, line: i + 1 }] : [];
+    });
+  }
+
+  const declarations: ConfigDeclaration[] = [];
+  const configuration = JSON.parse(text).contributes?.configuration;
+  for (const section of [configuration ?? []].flat()) {
+    for (const key of Object.keys(section?.properties ?? {})) {
+      const index = lines.findIndex((line) => line.includes(JSON.stringify(key)));
+      declarations.push({ kind: 'vscode', key, filePath, line: index + 1 });
+    }
+  }
+  return declarations;
+}
+
+/** `process.env` / `import.meta.env` when the expression is one of them */
+function getEnvObject(expression: ts.Expression): string | undefined {
+  const text = unwrapExpression(expression).getText();
+  return text === 'process.env' || text === 'import.meta.env' ? text : undefined;
+}
+
+/**
+ * Section of a `getConfiguration('section')` call (`''` when called without
+ * one), or undefined for other calls.
+ */
+function getConfigurationSection(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  const name = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : undefined;
+  if (name !== 'getConfiguration') return undefined;
+  const [section] = call.arguments;
+  return section && ts.isStringLiteralLike(section) ? section.text : '';
+}
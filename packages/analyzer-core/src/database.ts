@@ -0,0 +1,248 @@
+import * as ts from 'typescript';
+import { getImportSpecifier, unwrapExpression } from './syntax';
+
+/**
+ * Minimal database schema scanning: Prisma models and SQL `CREATE TABLE`
+ * statements, enough to name each table, its columns and where it is declared.
+ * Line numbers are 1-based. Drizzle tables and the queries code runs against
+ * Prisma, Drizzle and Supabase are read from the TypeScript syntax tree.
+ */
+
+const DRIZZLE_TABLE_FACTORY = /^(?:pg|mysql|sqlite)Table$/;
+
+const PRISMA_OPERATIONS = new Map<string, TableAccessMode>([
+  ...['findMany', 'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow', 'count', 'aggregate', 'groupBy'].map(
+    (method) => [method, 'read'] as const
+  ),
+  ...['create', 'createMany', 'createManyAndReturn', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany'].map(
+    (method) => [method, 'write'] as const
+  ),
+]);
+
+/** Drizzle query builder calls taking a table as their first argument */
+const DRIZZLE_OPERATIONS = new Map<string, TableAccessMode>([
+  ...['from', 'innerJoin', 'leftJoin', 'rightJoin', 'fullJoin'].map((method) => [method, 'read'] as const),
+  ...['insert', 'update', 'delete'].map((method) => [method, 'write'] as const),
+]);
+
+/** Supabase query builder calls chained on `.from('table')` */
+const SUPABASE_OPERATIONS = new Map<string, TableAccessMode>([
+  ['select', 'read'],
+  ...['insert', 'update', 'upsert', 'delete'].map((method) => [method, 'write'] as const),
+]);
+
+export type TableAccessMode = 'read' | 'write';
+
+export interface SchemaTable {
+  /** Table name in the database: `@@map` target or model name, without schema or quotes */
+  name: string;
+  /** Prisma model name, also the client accessor (`prisma.user` for `User`) */
+  model?: string;
+  columns: string[];
+  startLine: number;
+  /** 0-based, like the end column, which is exclusive */
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface DrizzleTable {
+  name: string;
+  /** Variable the table is assigned to */
+  variable: string;
+  columns: string[];
+  statement: ts.VariableStatement;
+}
+
+export interface TableQuery {
+  database: 'prisma' | 'drizzle' | 'supabase';
+  mode: TableAccessMode;
+  node: ts.CallExpression;
+  /**
+   * Prisma client accessor (`user` in `prisma.user`), Drizzle query API table
+   * (`db.query.users`) or Supabase table name
+   */
+  name?: string;
+  /** Drizzle: the table argument of `from()` / `insert()` / ... */
+  table?: ts.Expression;
+}
+
+/** `model User { ... }` blocks of a Prisma schema; relation fields are not columns */
+export function parsePrismaModels(text: string): SchemaTable[] {
+  const masked = maskSegments(text, /\/\/[^\n]*/g);
+  const blocks = Array.from(masked.matchAll(/^[ \t]*model\s+(\w+)\s*\{/gm), (match) => {
+    const bodyStart = match.index! + match[0].length;
+    const bodyEnd = findClosing(masked, bodyStart, '{', '}');
+    const start = match.index! + match[0].search(/\S/);
+    return { model: match[1], start, body: masked.slice(bodyStart, bodyEnd), end: Math.min(bodyEnd + 1, text.length) };
+  });
+  const models = new Set(blocks.map((block) => block.model));
+
+  return blocks.map(({ model, start, body, end }) => {
+    const columns: string[] = [];
+    for (const line of body.split('\n')) {
+      const field = line.match(/^\s*(\w+)\s+(\w+)/);
+      if (field && !models.has(field[2])) columns.push(field[1]);
+    }
+    return {
+      name: body.match(/@@map\(\s*(?:name\s*:\s*)?"([^"]+)"/)?.[1] ?? model,
+      model,
+      columns,
+      ...getSpan(text, start, end),
+    };
+  });
+}
+
+/** `CREATE TABLE [IF NOT EXISTS] [schema.]name (...)` statements, e.g. in migrations */
+export function parseSqlTables(text: string): SchemaTable[] {
+  // String literals are blanked too, so brackets and commas in defaults don't count
+  const masked = maskSegments(text, /--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^'\\]|\\.|'')*'/g);
+  const tables: SchemaTable[] = [];
+  const tableRegex =
+    /\bcreate\s+(?:(?:global\s+|local\s+)?(?:temporary|temp)\s+|unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?((?:"[^"]+"|`[^`]+`|[\w$]+)(?:\s*\.\s*(?:"[^"]+"|`[^`]+`|[\w$]+))?)\s*\(/gi;
+
+  for (const match of masked.matchAll(tableRegex)) {
+    const bodyStart = match.index! + match[0].length;
+    const bodyEnd = findClosing(masked, bodyStart, '(', ')');
+    const columns = splitTopLevel(masked.slice(bodyStart, bodyEnd))
+      .map((definition) => definition.trim())
+      .filter((definition) => !/^(?:constraint|primary|foreign|unique|check|exclude|like|key|index)\b/i.test(definition))
+      .map((definition) => definition.match(/^("[^"]+"|`[^`]+`|[\w$]+)/)?.[1])
+      .filter((column): column is string => !!column)
+      .map(unquote);
+
+    tables.push({
+      name: unquote(match[1].split('.').pop()!.trim()),
+      columns,
+      ...getSpan(text, match.index!, Math.min(bodyEnd + 1, text.length)),
+    });
+  }
+  return tables;
+}
+
+/** `export const users = pgTable('users', { ... })` (also `mysqlTable` / `sqliteTable`) */
+export function findDrizzleTables(sourceFile: ts.SourceFile): DrizzleTable[] {
+  const tables: DrizzleTable[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const decl of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+      const call = unwrapExpression(decl.initializer);
+      if (!ts.isCallExpression(call) || !ts.isIdentifier(call.expression)) continue;
+      if (!DRIZZLE_TABLE_FACTORY.test(call.expression.text)) continue;
+      if (!getImportSpecifier(sourceFile, call.expression.text)?.startsWith('drizzle-orm')) continue;
+      const [name, columns] = call.arguments;
+      if (!name || !ts.isStringLiteralLike(name)) continue;
+
+      tables.push({
+        name: name.text,
+        variable: decl.name.text,
+        columns:
+          columns && ts.isObjectLiteralExpression(columns)
+            ? columns.properties.flatMap((p) => (p.name && !ts.isComputedPropertyName(p.name) ? [p.name.text] : []))
+            : [],
+        statement,
+      });
+    }
+  }
+  return tables;
+}
+
+/**
+ * Table reads and writes in code:
+ * - Prisma: `prisma.user.findMany()` reads, `prisma.user.create()` writes
+ * - Drizzle: `db.select().from(users)`, joins and `db.query.users.findMany()`
+ *   read, `db.insert(users)` / `update` / `delete` write
+ * - Supabase: `supabase.from('users').select()` reads, `.insert()` /
+ *   `.update()` / `.upsert()` / `.delete()` write
+ */
+export function findTableQueries(sourceFile: ts.SourceFile): TableQuery[] {
+  const queries: TableQuery[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      const receiver = unwrapExpression(node.expression.expression);
+      const [firstArg] = node.arguments;
+
+      const prismaMode = PRISMA_OPERATIONS.get(method);
+      if (prismaMode && ts.isPropertyAccessExpression(receiver)) {
+        queries.push({ database: 'prisma', mode: prismaMode, node, name: receiver.name.text });
+      }
+
+      const drizzleMode = DRIZZLE_OPERATIONS.get(method);
+      if (drizzleMode && firstArg) {
+        queries.push({ database: 'drizzle', mode: drizzleMode, node, table: firstArg });
+      }
+      if (
+        (method === 'findMany' || method === 'findFirst') &&
+        ts.isPropertyAccessExpression(receiver) &&
+        ts.isPropertyAccessExpression(receiver.expression) &&
+        receiver.expression.name.text === 'query'
+      ) {
+        queries.push({ database: 'drizzle', mode: 'read', node, name: receiver.name.text });
+      }
+
+      // `.from('users')` followed by the operation: `.from('users').select()`
+      const next = node.parent;
+      const supabaseMode =
+        ts.isPropertyAccessExpression(next) && next.expression === node ? SUPABASE_OPERATIONS.get(next.name.text) : undefined;
+      if (method === 'from' && supabaseMode && firstArg && ts.isStringLiteralLike(firstArg)) {
+        queries.push({ database: 'supabase', mode: supabaseMode, node, name: firstArg.text.split('.').pop()! });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return queries;
+}
+
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+}
+
+function findClosing(text: string, bodyStart: number, open: string, close: string): number {
+  let depth = 1;
+  for (let i = bodyStart; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    else if (text[i] === close && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/** Blanks the segments a pattern matches while keeping offsets and newlines */
+function maskSegments(text: string, comments: RegExp): string {
+  return text.replace(comments, (segment) => segment.replace(/[^\n]/g, ' '));
+}
+
+function unquote(name: string): string {
+  return name.replace(/^["`](.*)["`]$/, '$1');
+}
+
+/** Lines (1-based) and columns (0-based) of the text from `start` up to `end` */
+function getSpan(
+  text: string,
+  start: number,
+  end: number
+): Pick<SchemaTable, 'startLine' | 'startColumn' | 'endLine' | 'endColumn'> {
+  const startLineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const endLineStart = text.lastIndexOf('\n', end - 1) + 1;
+  return {
+    startLine: text.slice(0, start).split('\n').length,
+    startColumn: start - startLineStart,
+    endLine: text.slice(0, end).split('\n').length,
+    endColumn: end - endLineStart,
+  };
+}
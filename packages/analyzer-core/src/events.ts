@@ -0,0 +1,244 @@
+import * as ts from 'typescript';
+import { unwrapExpression } from './syntax';
+
+/**
+ * Event, message and queue channel scanning: where a channel name is sent or
+ * handled. TypeScript and JavaScript are read from the syntax tree, including
+ * `<script>` blocks inlined in template literals (webview HTML); Python is
+ * scanned as text. Line numbers are 1-based.
+ */
+
+export type ChannelKind = 'event' | 'message' | 'queue';
+
+export type ChannelRole = 'publishers' | 'subscribers';
+
+export interface ChannelUse {
+  kind: ChannelKind;
+  name: string;
+  role: ChannelRole;
+  line: number;
+}
+
+/**
+ * - `event`: `.emit('x')` and `.on('x')`, `.once('x')`, `.addListener('x')`
+ * - `message`: `postMessage({ type: 'x' })` (or `command`, also through a
+ *   same-file helper or constant) and `message.type === 'x'` or `case 'x':`
+ *   when switching on it
+ * - `queue`: `.publish('x')` / `.sendToQueue('x')` / Kafka `send({ topic })`
+ *   and `.subscribe('x')` / `.consume('x')` / `subscribe({ topic(s) })`
+ * Uses inside an inlined script are reported on the template's first line.
+ */
+export function findChannelUses(sourceFile: ts.SourceFile): ChannelUse[] {
+  const uses: ChannelUse[] = [];
+  visitChannels(sourceFile, (kind, name, role, node) => {
+    const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    uses.push({ kind, name, role, line });
+  });
+  return uses;
+}
+
+/** The same calls in Python source, e.g. python-socketio `sio.emit('x')` or `@sio.on('x')` */
+export function findPythonChannelUses(text: string): ChannelUse[] {
+  // Strings are matched first so a `#` inside one isn't read as a comment
+  const masked = text.replace(/(['"])(?:\\.|(?!\1)[^\\\n])*\1|#.*$/gm, (segment) =>
+    /^['"]/.test(segment) ? segment : segment.replace(/[^\n]/g, ' ')
+  );
+  const lineStarts = [0, ...Array.from(masked.matchAll(/\n/g), (match) => match.index! + 1)];
+  const uses: ChannelUse[] = [];
+
+  for (const [kind, role, pattern] of PYTHON_CHANNEL_PATTERNS) {
+    for (const match of masked.matchAll(pattern)) {
+      uses.push({ kind, name: match.groups!.name, role, line: getLine(lineStarts, match.index!) });
+    }
+  }
+  return uses;
+}
+
+type ChannelReport = (kind: ChannelKind, name: string, role: ChannelRole, node: ts.Node) => void;
+
+function visitChannels(sourceFile: ts.SourceFile, report: ChannelReport): void {
+  let declarations: Map<string, ts.Node> | undefined;
+  const getDeclaration = (name: string) => (declarations ??= getNamedDeclarations(sourceFile)).get(name);
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      visitCall(node, getDeclaration, report);
+    } else if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsEqualsToken ||
+        node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken)
+    ) {
+      const name = isMessageType(node.left) ? getChannelName(node.right) : isMessageType(node.right) ? getChannelName(node.left) : undefined;
+      if (name) report('message', name, 'subscribers', node);
+    } else if (ts.isSwitchStatement(node) && isMessageType(node.expression)) {
+      for (const clause of node.caseBlock.clauses) {
+        const name = ts.isCaseClause(clause) ? getChannelName(clause.expression) : undefined;
+        if (name) report('message', name, 'subscribers', clause);
+      }
+    } else if (ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      for (const script of getInlineScripts(node)) {
+        visitChannels(script, (kind, name, role) => report(kind, name, role, node));
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+}
+
+function visitCall(
+  call: ts.CallExpression,
+  getDeclaration: (name: string) => ts.Node | undefined,
+  report: ChannelReport
+): void {
+  const callee = call.expression;
+  const method = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : '';
+  const [first] = call.arguments;
+  if (!first) return;
+
+  if (method === 'postMessage') {
+    for (const message of getMessageObjects(first, getDeclaration)) {
+      const name = getChannelName(getProperty(message, 'type') ?? getProperty(message, 'command'));
+      if (name) report('message', name, 'publishers', call);
+    }
+    return;
+  }
+  if (!ts.isPropertyAccessExpression(callee)) return;
+
+  const channel = METHOD_CHANNELS.get(method);
+  const name = getChannelName(first);
+  if (channel && name) {
+    report(channel[0], name, channel[1], call);
+  } else if (ts.isObjectLiteralExpression(first) && method === 'send') {
+    const topic = getChannelName(getProperty(first, 'topic'));
+    if (topic) report('queue', topic, 'publishers', call);
+  } else if (ts.isObjectLiteralExpression(first) && method === 'subscribe') {
+    const topics = getProperty(first, 'topics') ?? getProperty(first, 'topic');
+    for (const element of topics && ts.isArrayLiteralExpression(topics) ? topics.elements : [topics]) {
+      const topic = getChannelName(element);
+      if (topic) report('queue', topic, 'subscribers', call);
+    }
+  }
+}
+
+/** Object literals a message argument evaluates to: inline, a same-file constant, or returned by a same-file helper */
+function getMessageObjects(
+  argument: ts.Expression,
+  getDeclaration: (name: string) => ts.Node | undefined
+): ts.ObjectLiteralExpression[] {
+  const expression = unwrapExpression(argument);
+  if (ts.isObjectLiteralExpression(expression)) return [expression];
+
+  if (ts.isIdentifier(expression)) {
+    const declaration = getDeclaration(expression.text);
+    const initializer = declaration && ts.isVariableDeclaration(declaration) && declaration.initializer;
+    return initializer && ts.isObjectLiteralExpression(unwrapExpression(initializer))
+      ? [unwrapExpression(initializer) as ts.ObjectLiteralExpression]
+      : [];
+  }
+  if (!ts.isCallExpression(expression) || !ts.isIdentifier(expression.expression)) return [];
+
+  const declaration = getDeclaration(expression.expression.text);
+  const fn = declaration && ts.isVariableDeclaration(declaration) ? declaration.initializer : declaration;
+  if (!fn || !(ts.isFunctionDeclaration(fn) || ts.isFunctionExpression(fn) || ts.isArrowFunction(fn)) || !fn.body) return [];
+  const returned = ts.isBlock(fn.body) ? getReturnedExpressions(fn.body) : [fn.body];
+  return returned.map(unwrapExpression).filter(ts.isObjectLiteralExpression);
+}
+
+/** Functions and variables declared anywhere in the file, by name; the first declaration wins */
+function getNamedDeclarations(sourceFile: ts.SourceFile): Map<string, ts.Node> {
+  const declarations = new Map<string, ts.Node>();
+  const visit = (node: ts.Node): void => {
+    if ((ts.isFunctionDeclaration(node) || ts.isVariableDeclaration(node)) && node.name && ts.isIdentifier(node.name)) {
+      if (!declarations.has(node.name.text)) declarations.set(node.name.text, node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return declarations;
+}
+
+function getReturnedExpressions(body: ts.Block): ts.Expression[] {
+  const returned: ts.Expression[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isReturnStatement(node) && node.expression) returned.push(node.expression);
+    if (!ts.isFunctionLike(node)) ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+  return returned;
+}
+
+/** `message.type` / `msg.command` / `event.data.type` (also `evt`, `e`) */
+function isMessageType(expression: ts.Expression): boolean {
+  const node = unwrapExpression(expression);
+  if (!ts.isPropertyAccessExpression(node) || !['type', 'command'].includes(node.name.text)) return false;
+  const target = unwrapExpression(node.expression);
+  if (ts.isIdentifier(target)) return target.text === 'message' || target.text === 'msg';
+  return (
+    ts.isPropertyAccessExpression(target) &&
+    target.name.text === 'data' &&
+    ts.isIdentifier(target.expression) &&
+    ['event', 'evt', 'e'].includes(target.expression.text)
+  );
+}
+
+/** `<script>` contents of an HTML template literal, parsed as JavaScript; substitutions read as `0` */
+function getInlineScripts(template: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral): ts.SourceFile[] {
+  const text = ts.isNoSubstitutionTemplateLiteral(template)
+    ? template.text
+    : template.head.text + template.templateSpans.map((span) => ` 0 ${span.literal.text}`).join('');
+  if (!text.includes('<script')) return [];
+
+  return Array.from(text.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/gi), (match) =>
+    ts.createSourceFile('inline.js', match[1], ts.ScriptTarget.Latest, true, ts.ScriptKind.JS)
+  );
+}
+
+function getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+function getChannelName(expression: ts.Expression | undefined): string | undefined {
+  if (!expression) return undefined;
+  const node = unwrapExpression(expression);
+  return ts.isStringLiteralLike(node) && /^[\w:.\-/]+$/.test(node.text) ? node.text : undefined;
+}
+
+function getLine(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+}
+
+const METHOD_CHANNELS = new Map<string, [ChannelKind, ChannelRole]>([
+  ['emit', ['event', 'publishers']],
+  ['on', ['event', 'subscribers']],
+  ['once', ['event', 'subscribers']],
+  ['addListener', ['event', 'subscribers']],
+  ['publish', ['queue', 'publishers']],
+  ['sendToQueue', ['queue', 'publishers']],
+  ['subscribe', ['queue', 'subscribers']],
+  ['consume', ['queue', 'subscribers']],
+]);
+
+const CHANNEL_NAME = String.raw`(['"])(?<name>[\w:.\-/]+)\1`;
+
+const PYTHON_CHANNEL_PATTERNS: [ChannelKind, ChannelRole, RegExp][] = [
+  ['event', 'publishers', new RegExp(String.raw`\.\s*emit\s*\(\s*${CHANNEL_NAME}`, 'g')],
+  ['event', 'subscribers', new RegExp(String.raw`\.\s*(?:on|once|addListener)\s*\(\s*${CHANNEL_NAME}`, 'g')],
+  ['queue', 'publishers', new RegExp(String.raw`\.\s*(?:publish|sendToQueue)\s*\(\s*${CHANNEL_NAME}`, 'g')],
+  ['queue', 'subscribers', new RegExp(String.raw`\.\s*(?:subscribe|consume)\s*\(\s*${CHANNEL_NAME}`, 'g')],
+];
@@ -0,0 +1,44 @@
+import * as path from 'path';
+import fg from 'fast-glob';
+import type { Extractor } from './types';
+
+const WORKSPACE_EXTRACTORS_GLOB = '.monoid/extractors/*.js';
+
+/**
+ * Loads the extractors a workspace ships in `.monoid/extractors/*.js`. Each file
+ * is a CommonJS module exporting an extractor or an array of them (directly or
+ * as `default`); files that fail to load or export nothing usable are logged
+ * and skipped.
+ */
+export async function loadWorkspaceExtractors(
+  rootPath: string,
+  log: (message: string) => void
+): Promise<Extractor[]> {
+  const files = await fg([WORKSPACE_EXTRACTORS_GLOB], { cwd: rootPath, dot: true, absolute: false });
+  const extractors: Extractor[] = [];
+
+  for (const file of files.sort()) {
+    const fullPath = path.join(rootPath, file);
+    try {
+      // Pick up edits between runs
+      delete require.cache[require.resolve(fullPath)];
+      const exported = require(fullPath);
+      const candidates: unknown[] = [exported?.default ?? exported].flat();
+      const valid = candidates.filter(isExtractor);
+      if (valid.length === 0) {
+        log(`  Extractor file ${file} exports no extractor (expected { name, extract })`);
+        continue;
+      }
+      extractors.push(...valid);
+      log(`  Loaded extractor${valid.length > 1 ? 's' : ''} ${valid.map((e) => e.name).join(', ')} from ${file}`);
+    } catch (error) {
+      log(`  ERROR loading extractor file ${file}: ${error}`);
+    }
+  }
+  return extractors;
+}
+
+function isExtractor(value: unknown): value is Extractor {
+  const candidate = value as Partial<Extractor> | undefined;
+  return typeof candidate?.name === 'string' && typeof candidate.extract === 'function';
+}
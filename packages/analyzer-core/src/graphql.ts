@@ -0,0 +1,222 @@
+import * as ts from 'typescript';
+import { FoundEndpoint } from './routes';
+import { getCallName, getDecorator, getStringProperty, hasModifier, unwrapExpression, unwrapFunction } from './syntax';
+
+/**
+ * Minimal GraphQL text scanning: enough to find root-type fields in SDL and the
+ * top-level fields an operation selects. Offsets index into the original text
+ * so callers can map them back to lines. Resolvers and `gql` templates are
+ * read from the TypeScript syntax tree.
+ */
+
+const GRAPHQL_TAGS = ['gql', 'graphql'];
+
+export type GraphqlRootType = 'Query' | 'Mutation' | 'Subscription';
+
+export const GRAPHQL_ROOT_TYPES: GraphqlRootType[] = ['Query', 'Mutation', 'Subscription'];
+
+export interface GraphqlSchemaField {
+  rootType: GraphqlRootType;
+  name: string;
+  /** Offset of the field name */
+  start: number;
+  /** Offset just past the field's type */
+  end: number;
+}
+
+export interface GraphqlOperation {
+  rootType: GraphqlRootType;
+  /** Operation name, e.g. `GetUser` in `query GetUser { ... }` */
+  name?: string;
+  /** Top-level fields selected, with aliases resolved to the real field */
+  fields: string[];
+}
+
+export interface GraphqlTemplate {
+  /** Template contents, without the backticks */
+  document: string;
+  /** Offset of the document in the file */
+  offset: number;
+  /** `const GET_USER = gql`...`` */
+  constName?: string;
+}
+
+/** Fields of `type Query { ... }` / `extend type Mutation { ... }` blocks */
+export function parseSchemaFields(text: string): GraphqlSchemaField[] {
+  const masked = maskArguments(maskStringsAndComments(text));
+  const fields: GraphqlSchemaField[] = [];
+  const typeRegex = /\b(?:extend\s+)?type\s+(Query|Mutation|Subscription)\b[^{]*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = typeRegex.exec(masked)) !== null) {
+    const rootType = match[1] as GraphqlRootType;
+    const bodyStart = match.index + match[0].length;
+    const bodyEnd = findClosingBrace(masked, bodyStart);
+    const body = masked.slice(bodyStart, bodyEnd);
+
+    // Arguments are blanked, so every `name:` left in the body starts a field
+    const starts = Array.from(body.matchAll(/([_A-Za-z]\w*)\s*:/g));
+    starts.forEach((field, i) => {
+      const next = i + 1 < starts.length ? starts[i + 1].index! : body.length;
+      fields.push({
+        rootType,
+        name: field[1],
+        start: bodyStart + field.index!,
+        end: bodyStart + field.index! + body.slice(field.index!, next).trimEnd().length,
+      });
+    });
+    typeRegex.lastIndex = bodyEnd;
+  }
+  return fields;
+}
+
+/** `query GetUser { user { id } }`, `mutation { ... }` and shorthand `{ ... }` operations */
+export function parseOperations(text: string): GraphqlOperation[] {
+  const masked = maskArguments(maskStringsAndComments(text));
+  const operations: GraphqlOperation[] = [];
+  let cursor = 0;
+
+  while (cursor < masked.length) {
+    const rest = masked.slice(cursor);
+    const keyword = rest.match(/^\s*(query|mutation|subscription|fragment)\b\s*(\w*)[^{]*\{/);
+    const header = keyword ?? rest.match(/^\s*\{/);
+    if (!header) break;
+
+    const bodyStart = cursor + header[0].length;
+    const bodyEnd = findClosingBrace(masked, bodyStart);
+    if (keyword?.[1] !== 'fragment') {
+      const operationType = keyword?.[1] ?? 'query';
+      operations.push({
+        rootType: (operationType[0].toUpperCase() + operationType.slice(1)) as GraphqlRootType,
+        ...(keyword?.[2] ? { name: keyword[2] } : {}),
+        fields: getTopLevelSelections(masked.slice(bodyStart, bodyEnd)),
+      });
+    }
+    cursor = bodyEnd + 1;
+  }
+  return operations;
+}
+
+/** `gql` / `graphql` tagged templates in a TypeScript or JavaScript file */
+export function findGraphqlTemplates(sourceFile: ts.SourceFile): GraphqlTemplate[] {
+  const templates: GraphqlTemplate[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isTaggedTemplateExpression(node) && ts.isIdentifier(node.tag) && GRAPHQL_TAGS.includes(node.tag.text)) {
+      templates.push({
+        document: node.template.getText(sourceFile).slice(1, -1),
+        offset: node.template.getStart(sourceFile) + 1,
+        ...(ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)
+          ? { constName: node.parent.name.text }
+          : {}),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return templates;
+}
+
+/**
+ * GraphQL resolvers: `{ Query: { user: () => ... } }` resolver maps, and
+ * `@Resolver()` classes with `@Query()` / `@Mutation()` methods.
+ */
+export function findGraphqlResolvers(sourceFile: ts.SourceFile): FoundEndpoint[] {
+  const found: FoundEndpoint[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name)) &&
+      (GRAPHQL_ROOT_TYPES as string[]).includes(node.name.text) &&
+      ts.isObjectLiteralExpression(node.initializer)
+    ) {
+      const method = node.name.text.toUpperCase();
+      for (const member of node.initializer.properties) {
+        if (!member.name || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) continue;
+        const fn = ts.isMethodDeclaration(member)
+          ? member
+          : ts.isPropertyAssignment(member)
+            ? unwrapFunction(unwrapExpression(member.initializer))
+            : undefined;
+        found.push({
+          method,
+          route: member.name.text,
+          node: member,
+          bodyStart: fn?.body?.getStart(sourceFile),
+          exported: false,
+          api: 'graphql',
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isClassDeclaration(statement) || !statement.name || !getDecorator(statement, 'Resolver')) continue;
+    for (const member of statement.members) {
+      if (!ts.isMethodDeclaration(member) || !ts.isIdentifier(member.name)) continue;
+      const decorator = GRAPHQL_ROOT_TYPES.map((d) => getDecorator(member, d)).find(Boolean);
+      if (!decorator) continue;
+
+      // `@Query(() => User, { name: 'user' })` overrides the field name
+      const options = decorator.arguments.find(ts.isObjectLiteralExpression);
+      found.push({
+        method: getCallName(decorator)!.toUpperCase(),
+        route: (options && getStringProperty(options, 'name')) ?? member.name.text,
+        node: member,
+        bodyStart: member.body?.getStart(sourceFile),
+        exported: hasModifier(statement, ts.SyntaxKind.ExportKeyword),
+        steps: [{ name: `${statement.name.text}.${member.name.text}`, role: 'handler', scope: 'route' }],
+        api: 'graphql',
+      });
+    }
+  }
+  return found;
+}
+
+/** Field names selected directly in a selection set body, skipping aliases, spreads and directives */
+function getTopLevelSelections(body: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  const tokenRegex = /\.\.\.\s*(?:on\s+)?\w*|@\w+|[_A-Za-z]\w*(\s*:)?|[{}]/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenRegex.exec(body)) !== null) {
+    const value = token[0];
+    if (value === '{') depth++;
+    else if (value === '}') depth--;
+    else if (depth === 0 && !value.startsWith('...') && !value.startsWith('@') && !token[1]) {
+      fields.push(value);
+    }
+  }
+  return fields;
+}
+
+function findClosingBrace(text: string, bodyStart: number): number {
+  let depth = 1;
+  for (let i = bodyStart; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/** Blanks `"..."`, `"""..."""` and `# ...` while keeping offsets and newlines */
+function maskStringsAndComments(text: string): string {
+  return text.replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n]*/g, (segment) =>
+    segment.replace(/[^\n]/g, ' ')
+  );
+}
+
+/** Blanks the contents of `(...)` so argument names don't read as fields */
+function maskArguments(text: string): string {
+  let depth = 0;
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(') depth++;
+    result += depth > 0 && char !== '\n' ? ' ' : char;
+    if (char === ')') depth = Math.max(0, depth - 1);
+  }
+  return result;
+}
@@ -1,14 +1,97 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import fg from 'fast-glob';
+import * as ts from 'typescript';
+import { getAngularComponent, getElementSelectors, templateRenders } from './angular';
+import {
+  ConfigDeclaration,
+  ConfigRead,
+  findConfigReads,
+  findPythonConfigReads,
+  parseConfigDeclarations,
+  UNDECLARED_ENV_OK,
+} from './config';
+import {
+  findDrizzleTables,
+  findTableQueries,
+  parsePrismaModels,
+  parseSqlTables,
+  SchemaTable,
+} from './database';
+import { ChannelUse, findChannelUses, findPythonChannelUses } from './events';
+import { loadWorkspaceExtractors } from './extractors';
+import {
+  findGraphqlResolvers,
+  findGraphqlTemplates,
+  GraphqlOperation,
+  parseOperations,
+  parseSchemaFields,
+} from './graphql';
+import { findJobs, findQueueAdds, parseVercelCrons } from './jobs';
+import { findNestEndpoints, getInjectedDependencies } from './nest';
+import { findPagesApiHandlers, findRouteHandlers, findServerActions, getNextRoute } from './next';
+import {
+  getDjangoUrlPatterns,
+  getPythonBases,
+  getPythonRouterMount,
+  getPythonRouters,
+  getPythonRoutes,
+  joinPythonModule,
+  parsePythonModule,
+  PythonDefinition,
+  PythonModule,
+  PythonStatement,
+} from './python';
+import { ImportResolver } from './resolver';
+import {
+  findHttpRoutes,
+  FoundEndpoint,
+  joinRoutes,
+  PendingMount,
+  routeHasPrefix,
+  routeMatches,
+  RouteStep,
+} from './routes';
+import { findStateUses, getStoreDefinition } from './state';
+import { findFormActions, getSvelteKitRoute, getSvelteProps } from './svelte';
+import {
+  escapeRegExp,
+  getBindingNames,
+  getCallName,
+  getDecorators,
+  getDefaultExportFunction,
+  getDefaultExportName,
+  getImportClauseNames,
+  getImportedName,
+  getImportSpecifier,
+  getNamedFunction,
+  getOpenBraceStart,
+  getTextPosition,
+  getTopLevelFunctions,
+  hasModifier,
+  isDeclaredInFile,
+  TopLevelFunction,
+  unwrapExpression,
+  unwrapFunction,
+} from './syntax';
+import { findTrpcProcedures, getTrpcClientPattern } from './trpc';
+import {
+  findGlobalComponents,
+  getVueComponentInterface,
+  getVueComponentName,
+  getVueTemplateTags,
+  toPascalCase,
+} from './vue';
 import type {
   LocalNode,
   LocalEdge,
   AnalysisResult,
   GitHubInfo,
   AnalyzerOptions,
+  Granularity,
   NodeType,
   EdgeType,
+  Extractor,
 } from './types';
 
 export type {
@@ -17,8 +100,12 @@ export type {
   AnalysisResult,
   GitHubInfo,
   AnalyzerOptions,
+  Granularity,
   NodeType,
   EdgeType,
+  Extractor,
+  ExtractorContext,
+  ExtractorResult,
 } from './types';
 
 /**
@@ -40,22 +127,92 @@ export async function analyzeDirectory(
 // Internal implementation
 // ---------------------------------------------------------------------------
 
-class CoreAnalyzer {
+/** Reusable across runs: each `analyze()` starts from a clean state and re-reads the files */
+export class CoreAnalyzer {
   private nodes: Map<string, LocalNode> = new Map();
   private edges: LocalEdge[] = [];
+  private sourceFiles: Map<string, ts.SourceFile> = new Map();
+  /** Class stable_id -> method nodes defined by that class */
+  private classMethods: Map<string, LocalNode[]> = new Map();
+  /** File path -> nodes defined in that file */
+  private nodesByFile: Map<string, LocalNode[]> = new Map();
+  /** File path -> import / re-export statements found in that file */
+  private moduleImports: Map<string, ModuleImport[]> = new Map();
+  /** File path -> name of its default export */
+  private defaultExports: Map<string, string> = new Map();
+  /** File path -> local import name -> node it resolves to */
+  private importBindings: Map<string, Map<string, ImportBinding>> = new Map();
+  /** `extends` / `implements` clauses, resolved once every file has been analyzed */
+  private pendingHeritage: PendingHeritage[] = [];
+  /** Express middleware / handler chains, linked once every file has been analyzed */
+  private pendingRoutes: PendingRoute[] = [];
+  /** Endpoints registered on each router, keyed `file#router` */
+  private routerEndpoints: Map<string, string[]> = new Map();
+  private routerMounts: PendingMount[] = [];
+  /** `gql` operations per file, linked to the code that sends them in phase 2 */
+  private graphqlDocuments: Map<string, GraphqlDocument[]> = new Map();
+  /** Vue `app.component('Name', Component)` registrations: PascalCase name -> registering file and local name */
+  private globalComponents: Map<string, { file: string; localName: string }> = new Map();
+  /** Config keys read in code (`config::env::API_URL`), with where each read happens */
+  private configReads: Map<string, ConfigRead[]> = new Map();
+  /** Config keys declared in `.env.example` files and `contributes.configuration` */
+  private configDeclarations: Map<string, ConfigDeclaration[]> = new Map();
+  /** Database tables (`table::users`) with the Prisma, Drizzle and SQL schemas declaring them */
+  private tableDefinitions: Map<string, TableDefinition[]> = new Map();
+  /** BullMQ / Bull queue name by the `file::variable` holding the queue */
+  private jobQueues: Map<string, string> = new Map();
+  /** Jobs whose processor is a named function, linked to it in phase 2 */
+  private jobProcessors: { jobId: string; filePath: string; processor: string }[] = [];
+  /** Names each module re-exports, `export { a as b }` aliases included */
+  private reexports: Map<string, ReExport[]> = new Map();
+  /** `import()` expressions per file */
+  private dynamicImports: Map<string, DynamicImport[]> = new Map();
+  /** Calls of plain identifiers (`helper()`) per file */
+  private localCalls: Map<string, LocalCall[]> = new Map();
+  /** Parsed Python modules, the Python counterpart of `sourceFiles` */
+  private pythonModules: Map<string, PythonModule> = new Map();
+  /** Whether a directory belongs to a Next.js project, for pages-router detection */
+  private nextProjectDirs: Map<string, boolean> = new Map();
+  private files: Set<string> = new Set();
+  private resolver!: ImportResolver;
   private rootPath: string;
   private githubInfo?: GitHubInfo;
   private logger: (msg: string) => void;
   private onProgress?: (msg: string, pct: number) => void;
+  private includeTests: boolean;
+  private collapseBarrels: boolean;
+  private granularity: Granularity;
+  private extractors: Extractor[];
+  private loadWorkspaceExtractors: boolean;
+  /** Configured plus workspace extractors for the current run */
+  private activeExtractors: Extractor[] = [];
+  /** Custom extractor edges, added once every node they may point at exists */
+  private extractorEdges: { extractor: string; edge: LocalEdge }[] = [];
+  private extractorStats: Map<string, { nodes: number; edges: number; errors: number }> = new Map();
 
   private stats = {
     filesAnalyzed: 0,
+    modulesFound: 0,
     componentsFound: 0,
+    pageRoutesFound: 0,
     vueComponentsFound: 0,
+    svelteComponentsFound: 0,
     hooksFound: 0,
     endpointsFound: 0,
+    middlewareFound: 0,
+    handlersFound: 0,
     classesFound: 0,
+    methodsFound: 0,
     exportedFunctionsFound: 0,
+    nestedFunctionsFound: 0,
+    typesFound: 0,
+    constantsFound: 0,
+    storesFound: 0,
+    configKeysFound: 0,
+    tablesFound: 0,
+    channelsFound: 0,
+    jobsFound: 0,
+    testsFound: 0,
     skippedFunctions: 0,
   };
 
@@ -64,19 +221,63 @@ class CoreAnalyzer {
     this.githubInfo = githubInfo;
     this.logger = options?.logger ?? ((msg: string) => console.log(`[analyzer-core] ${msg}`));
     this.onProgress = options?.onProgress;
+    this.includeTests = options?.includeTests ?? false;
+    this.collapseBarrels = options?.collapseBarrels ?? false;
+    this.granularity = options?.granularity ?? 'exported-only';
+    this.extractors = options?.extractors ?? [];
+    this.loadWorkspaceExtractors = options?.loadWorkspaceExtractors ?? false;
   }
 
   async analyze(): Promise<AnalysisResult> {
     this.nodes.clear();
     this.edges = [];
+    this.sourceFiles.clear();
+    this.classMethods.clear();
+    this.nodesByFile.clear();
+    this.moduleImports.clear();
+    this.defaultExports.clear();
+    this.importBindings.clear();
+    this.pendingHeritage = [];
+    this.pendingRoutes = [];
+    this.routerEndpoints.clear();
+    this.routerMounts = [];
+    this.nextProjectDirs.clear();
+    this.graphqlDocuments.clear();
+    this.globalComponents.clear();
+    this.pythonModules.clear();
+    this.configReads.clear();
+    this.configDeclarations.clear();
+    this.tableDefinitions.clear();
+    this.jobQueues.clear();
+    this.dynamicImports.clear();
+    this.localCalls.clear();
+    this.reexports.clear();
+    this.jobProcessors = [];
+    this.extractorEdges = [];
+    this.extractorStats.clear();
     this.stats = {
       filesAnalyzed: 0,
+      modulesFound: 0,
       componentsFound: 0,
+      pageRoutesFound: 0,
       vueComponentsFound: 0,
+      svelteComponentsFound: 0,
       hooksFound: 0,
       endpointsFound: 0,
+      middlewareFound: 0,
+      handlersFound: 0,
       classesFound: 0,
+      methodsFound: 0,
       exportedFunctionsFound: 0,
+      nestedFunctionsFound: 0,
+      typesFound: 0,
+      constantsFound: 0,
+      storesFound: 0,
+      configKeysFound: 0,
+      tablesFound: 0,
+      channelsFound: 0,
+      jobsFound: 0,
+      testsFound: 0,
       skippedFunctions: 0,
     };
 
@@ -90,30 +291,42 @@ class CoreAnalyzer {
 
     // Find all relevant files
     const files = await fg(
-      ['**/*.{ts,tsx,js,jsx,vue}'],
+      ['**/*.{ts,tsx,js,jsx,vue,svelte,graphql,gql,py}'],
       {
         cwd: this.rootPath,
         ignore: [
-          '**/node_modules/**',
-          '**/dist/**',
-          '**/build/**',
-          '**/.next/**',
-          '**/coverage/**',
-          '**/*.test.*',
-          '**/*.spec.*',
-          '**/__tests__/**',
+          ...IGNORED_DIRECTORIES,
+          // Generated Django migrations; JS/TS migrations (knex, TypeORM) are analyzed
+          '**/migrations/**/*.py',
+          // Test analysis covers JS/TS test runners only
+          '**/{test_*,*_test,conftest}.py',
+          ...(this.includeTests ? [] : ['**/*.test.*', '**/*.spec.*', '**/__tests__/**']),
         ],
         absolute: false,
         dot: false,
       }
     );
 
+    this.files = new Set(files);
+    this.resolver = new ImportResolver(this.rootPath, this.files);
     const totalFiles = files.length;
     this.log(`Found ${totalFiles} source files to analyze`);
 
+    this.activeExtractors = [
+      ...this.extractors,
+      ...(this.loadWorkspaceExtractors ? await loadWorkspaceExtractors(this.rootPath, (m) => this.log(m)) : []),
+    ];
+    for (const extractor of this.activeExtractors) {
+      this.extractorStats.set(extractor.name, { nodes: 0, edges: 0, errors: 0 });
+    }
+    if (this.activeExtractors.length > 0) {
+      this.log(`Custom extractors: ${this.activeExtractors.map((e) => e.name).join(', ')}`);
+    }
+
     for (const relativePath of files) {
       try {
         this.analyzeFile(relativePath);
+        await this.runExtractors(relativePath);
         this.stats.filesAnalyzed++;
 
         if (this.onProgress) {
@@ -127,13 +340,35 @@ class CoreAnalyzer {
         this.log(`ERROR analyzing ${relativePath}: ${error}`);
       }
     }
+    await this.loadConfigDeclarations();
+    await this.loadSchemaFiles();
+    await this.loadVercelCrons();
 
     // Phase 2: Analyze edges
     this.log('');
     this.log('='.repeat(60));
     this.log('Phase 2: Analyzing relationships between nodes...');
     this.log('='.repeat(60));
+    this.composeMountedRoutes();
+    this.analyzeModuleEdges();
+    this.analyzeHeritageEdges();
+    this.analyzeRouteEdges();
+    this.analyzeResolverEdges();
+    this.analyzePageEdges();
+    this.analyzeTemplateEdges();
+    this.analyzeStateEdges();
+    this.analyzeConfigEdges();
+    this.analyzeDatabaseEdges();
+    this.analyzeEventEdges();
+    this.analyzeJobEdges();
+    this.addExtractorEdges();
     this.analyzeEdges();
+    if (this.includeTests) {
+      this.markTestedNodes();
+    }
+    if (this.collapseBarrels) {
+      this.collapseBarrelModules();
+    }
 
     // Log summary
     this.log('');
@@ -141,12 +376,34 @@ class CoreAnalyzer {
     this.log('Analysis Complete!');
     this.log('='.repeat(60));
     this.log(`Files analyzed: ${this.stats.filesAnalyzed}`);
+    this.log(`Modules found: ${this.stats.modulesFound}`);
     this.log(`Components found: ${this.stats.componentsFound}`);
+    this.log(`Pages/layouts found: ${this.stats.pageRoutesFound}`);
     this.log(`Vue components found: ${this.stats.vueComponentsFound}`);
+    this.log(`Svelte components found: ${this.stats.svelteComponentsFound}`);
     this.log(`Hooks found: ${this.stats.hooksFound}`);
     this.log(`API endpoints found: ${this.stats.endpointsFound}`);
+    this.log(`Middleware found: ${this.stats.middlewareFound}`);
+    this.log(`Route handlers found: ${this.stats.handlersFound}`);
     this.log(`Classes found: ${this.stats.classesFound}`);
-    this.log(`Exported functions found: ${this.stats.exportedFunctionsFound}`);
+    this.log(`Methods found: ${this.stats.methodsFound}`);
+    this.log(`${this.granularity === 'exported-only' ? 'Exported functions' : 'Functions'} found: ${this.stats.exportedFunctionsFound}`);
+    if (this.granularity === 'all-including-nested') {
+      this.log(`Nested functions found: ${this.stats.nestedFunctionsFound}`);
+    }
+    this.log(`Types/interfaces found: ${this.stats.typesFound}`);
+    this.log(`Constants found: ${this.stats.constantsFound}`);
+    this.log(`State stores/contexts found: ${this.stats.storesFound}`);
+    this.log(`Config keys found: ${this.stats.configKeysFound}`);
+    this.log(`Database tables found: ${this.stats.tablesFound}`);
+    this.log(`Event/message channels found: ${this.stats.channelsFound}`);
+    this.log(`Background jobs/schedules found: ${this.stats.jobsFound}`);
+    if (this.includeTests) {
+      this.log(`Tests found: ${this.stats.testsFound}`);
+    }
+    for (const [name, { nodes, edges, errors }] of this.extractorStats) {
+      this.log(`Extractor ${name}: ${nodes} nodes, ${edges} edges${errors > 0 ? `, ${errors} errors` : ''}`);
+    }
     this.log(`Skipped (internal functions): ${this.stats.skippedFunctions}`);
     this.log(`Total nodes: ${this.nodes.size}`);
     this.log(`Total edges: ${this.edges.length}`);
@@ -158,6 +415,67 @@ class CoreAnalyzer {
     };
   }
 
+  // ----------- Custom extractors -----------
+
+  /** Runs custom extractors on a file; an extractor that throws is logged and skipped */
+  private async runExtractors(filePath: string): Promise<void> {
+    const extractors = this.activeExtractors.filter((e) => !e.filePattern || e.filePattern.test(filePath));
+    if (extractors.length === 0) return;
+
+    const text = this.readFile(filePath);
+    const sourceFile =
+      GRAPHQL_FILE_PATTERN.test(filePath) || PYTHON_FILE_PATTERN.test(filePath)
+        ? undefined
+        : this.parseFile(filePath, text);
+
+    for (const extractor of extractors) {
+      const stats = this.extractorStats.get(extractor.name)!;
+      const log = (message: string) => this.log(`  [${extractor.name}] ${message}`);
+      try {
+        const result = await extractor.extract({ filePath, text, lines: text.split('\n'), sourceFile, ts, log });
+        for (const node of result?.nodes ?? []) {
+          if (!node?.stable_id || !node.name || !node.node_type) {
+            log(`Skipping node without stable_id, name or node_type in ${filePath}`);
+            continue;
+          }
+          if (this.nodes.has(node.stable_id)) {
+            log(`Skipping duplicate node ${node.stable_id}`);
+            continue;
+          }
+          // Later passes read each node's file, so it has to be one of the analyzed ones
+          const nodeFilePath = node.file_path ? path.posix.normalize(node.file_path.replace(/\\/g, '/')) : filePath;
+          if (!this.files.has(nodeFilePath)) {
+            log(`Skipping node ${node.stable_id}: ${node.file_path} is not an analyzed file`);
+            continue;
+          }
+          this.addNode({
+            ...node,
+            file_path: nodeFilePath,
+            metadata: { ...node.metadata, extractor: extractor.name },
+          });
+          stats.nodes++;
+        }
+        for (const edge of result?.edges ?? []) {
+          this.extractorEdges.push({ extractor: extractor.name, edge });
+        }
+      } catch (error) {
+        stats.errors++;
+        this.log(`ERROR in extractor ${extractor.name} on ${filePath}: ${error}`);
+      }
+    }
+  }
+
+  private addExtractorEdges(): void {
+    for (const { extractor, edge } of this.extractorEdges) {
+      if (!this.nodes.has(edge.source_stable_id) || !this.nodes.has(edge.target_stable_id)) {
+        this.log(`  [${extractor}] Dropping edge ${edge.source_stable_id} -> ${edge.target_stable_id}: unknown node`);
+        continue;
+      }
+      this.edges.push({ ...edge, metadata: { ...edge.metadata, extractor } });
+      this.extractorStats.get(extractor)!.edges++;
+    }
+  }
+
   // ----------- File reading helpers -----------
 
   private readFile(relativePath: string): string {
@@ -178,77 +496,284 @@ class CoreAnalyzer {
     return `https://github.com/${owner}/${repo}/blob/${branch}/${filePath}#${lineRange}`;
   }
 
+  // ----------- Parsing helpers -----------
+
+  private parseFile(relativePath: string, text: string): ts.SourceFile {
+    const cached = this.sourceFiles.get(relativePath);
+    if (cached) return cached;
+
+    let sourceText = text;
+    let scriptKind = getScriptKind(relativePath);
+    if (SFC_FILE_PATTERN.test(relativePath)) {
+      // Only <script> blocks are code. Blank out everything else (keeping newlines)
+      // so positions reported by the parser still map 1:1 onto the .vue / .svelte file.
+      sourceText = maskOutsideScriptBlocks(text);
+      scriptKind = /<script[^>]*\blang\s*=\s*['"]ts['"]/.test(text)
+        ? ts.ScriptKind.TS
+        : ts.ScriptKind.JS;
+    }
+
+    const sourceFile = ts.createSourceFile(
+      relativePath,
+      sourceText,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKind
+    );
+    this.sourceFiles.set(relativePath, sourceFile);
+    return sourceFile;
+  }
+
+  /** 1-based lines and 0-based columns (end exclusive) of a syntax node, leading comments excluded */
+  private getLineRange(
+    sourceFile: ts.SourceFile,
+    node: ts.Node
+  ): { startLine: number; startColumn: number; endLine: number; endColumn: number } {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    return { startLine: start.line + 1, startColumn: start.character, endLine: end.line + 1, endColumn: end.character };
+  }
+
+  /**
+   * Columns for spans known only by line (Python blocks, whole files, JSON
+   * entries): from the first non-blank character to the end of the last line.
+   */
+  private getLineColumns(
+    lines: string[],
+    startLine: number,
+    endLine: number
+  ): { startColumn: number; endColumn: number } {
+    return {
+      startColumn: Math.max(0, lines[startLine - 1]?.search(/\S/) ?? 0),
+      endColumn: lines[endLine - 1]?.trimEnd().length ?? 0,
+    };
+  }
+
+  /**
+   * Declaration text up to (not including) the body, whitespace-collapsed.
+   */
+  private getSignature(sourceFile: ts.SourceFile, node: ts.Node, bodyStart?: number): string {
+    const start = node.getStart(sourceFile);
+    const end = bodyStart !== undefined && bodyStart > start ? bodyStart : node.getEnd();
+    return sourceFile.text.slice(start, end).replace(/\s+/g, ' ').trim();
+  }
+
   // ----------- Main file analysis -----------
 
   private analyzeFile(relativePath: string): void {
     const text = this.readFile(relativePath);
     const lines = text.split('\n');
     const isVueFile = /\.vue$/.test(relativePath);
-    const isReactFile =
-      /\.(tsx|jsx)$/.test(relativePath) ||
-      text.includes('import React') ||
-      text.includes("from 'react'") ||
-      text.includes('from "react"') ||
-      text.includes("'use client'") ||
-      text.includes('"use client"') ||
-      /<[A-Z]\w*[\s/>]/.test(text) ||
-      (/<[a-z]+[^>]*>/.test(text));
-
-    const exportedNames = this.getExportedNames(text);
-    const imports = this.extractImports(text, relativePath);
+    const isSvelteFile = /\.svelte$/.test(relativePath);
 
-    if (isVueFile) {
-      this.extractVueComponents(text, lines, relativePath);
+    if (GRAPHQL_FILE_PATTERN.test(relativePath)) {
+      this.extractGraphqlSchema(text, 0, text, lines, relativePath);
+      return;
+    }
+    if (PYTHON_FILE_PATTERN.test(relativePath)) {
+      this.analyzePythonFile(text, lines, relativePath);
+      return;
+    }
+
+    const sourceFile = this.parseFile(relativePath, text);
+
+    if (TEST_FILE_PATTERN.test(relativePath)) {
+      // Test files contribute test cases only, never production symbols
+      this.extractTests(sourceFile, lines, relativePath);
+      return;
     }
 
-    if (!isVueFile) {
-      this.extractComponents(text, lines, relativePath, exportedNames, imports);
+    const exportedNames = this.getExportedNames(sourceFile);
+    const defaultExport = getDefaultExportName(sourceFile);
+    if (defaultExport) this.defaultExports.set(relativePath, defaultExport);
+    const imports = this.extractImports(sourceFile, relativePath);
+    const functions = getTopLevelFunctions(sourceFile);
+
+    this.extractModule(sourceFile, lines, relativePath);
+
+    if (isVueFile) {
+      this.extractVueComponents(sourceFile, text, lines, relativePath);
+    } else if (isSvelteFile) {
+      this.extractSvelteComponent(sourceFile, text, lines, relativePath);
+    } else {
+      this.extractComponents(sourceFile, functions, lines, relativePath, exportedNames, imports);
+      this.extractNextRoutes(sourceFile, lines, relativePath);
+      this.extractGlobalComponents(sourceFile, relativePath);
     }
 
-    this.extractHooks(text, lines, relativePath, exportedNames, isVueFile);
-    this.extractEndpoints(text, lines, relativePath);
-    this.extractClasses(text, lines, relativePath, exportedNames);
-    this.extractExportedFunctions(text, lines, relativePath, exportedNames);
+    this.extractHooks(sourceFile, functions, lines, relativePath, exportedNames, isVueFile || isSvelteFile);
+    this.extractEndpoints(sourceFile, lines, relativePath);
+    this.extractGraphqlDocuments(sourceFile, text, lines, relativePath);
+    this.extractClasses(sourceFile, lines, relativePath, exportedNames);
+    this.extractExportedFunctions(sourceFile, functions, lines, relativePath, exportedNames);
+    if (this.granularity === 'all-including-nested') {
+      this.extractNestedFunctions(sourceFile, lines, relativePath);
+    }
+    this.markSvelteKitLoad(relativePath);
+    this.extractStores(sourceFile, lines, relativePath, exportedNames);
+    this.extractTypes(sourceFile, lines, relativePath, exportedNames);
+    this.extractConstants(sourceFile, lines, relativePath, exportedNames);
+    this.extractConfigReads(sourceFile, relativePath);
+    this.extractDrizzleTables(sourceFile, lines, relativePath);
+    this.extractJobs(sourceFile, lines, relativePath);
   }
 
   // ----------- Edge analysis -----------
 
   private analyzeEdges(): void {
-    const nodes = Array.from(this.nodes.values());
-    const nodeNames = new Set(nodes.map((n) => n.name));
-    const nodeByName = new Map(nodes.map((n) => [n.name, n]));
+    // Module-level edges are handled by analyzeModuleEdges(); external nodes have no code,
+    // and nodes declared outside the analyzed sources (config keys) have none to scan
+    const nodes = Array.from(this.nodes.values()).filter(
+      (n) => n.node_type !== 'module' && !n.metadata?.external && this.files.has(n.file_path)
+    );
+
+    // `extends` / `implements` already covers a base named in the class header,
+    // `depends_on` an injected constructor parameter, `routes_to` a middleware
+    // or handler named in the route definition and `uses` a child rendered in a template;
+    // custom extractors know their own relationships best
+    const linkedPairs = new Set(
+      this.edges
+        .filter(
+          (e) =>
+            ['extends', 'implements', 'depends_on', 'routes_to', 'uses'].includes(e.edge_type) ||
+            e.metadata?.extractor !== undefined
+        )
+        .map((e) => `${e.source_stable_id}->${e.target_stable_id}`)
+    );
 
     this.log(`Analyzing relationships for ${nodes.length} nodes...`);
-    this.edges = [];
+    const procedures = this.getTrpcProcedures();
 
     for (const node of nodes) {
       try {
         const fileContent = this.readFile(node.file_path);
-        const imports = this.getImportedNames(fileContent);
+        // Python nodes have no syntax tree; their imports are scanned separately
+        const sourceFile =
+          node.language === 'python' ? undefined : this.parseFile(node.file_path, fileContent);
+        const bindings = sourceFile
+          ? this.getImportBindings(node.file_path, sourceFile)
+          : this.getPythonImportBindings(node.file_path);
         const lines = fileContent.split('\n');
         const nodeCode =
-          node.language === 'vue'
+          node.language === 'vue' || node.language === 'svelte'
             ? fileContent
             : lines.slice(node.start_line - 1, node.end_line).join('\n');
 
-        const usedNodes = this.findUsedNodes(nodeCode, nodeNames, node.name, imports);
+        const targets: LocalNode[] = [];
+        // Reached only through a dynamic `import()`
+        const lazyTargets = new Set<LocalNode>();
+        for (const [localName, binding] of bindings) {
+          if (binding.namespace) {
+            // `import * as api from './api'` -> `api.fetchUser(...)`, `<api.Button />`
+            for (const [exportName, exported] of this.getExportedNodes(binding.namespace)) {
+              const pattern = new RegExp(`\\b${escapeRegExp(localName)}\\s*\\.\\s*${escapeRegExp(exportName)}\\b`);
+              if (exported !== node && pattern.test(nodeCode)) {
+                targets.push(exported);
+                if (binding.lazy) lazyTargets.add(exported);
+              }
+            }
+            continue;
+          }
 
-        if (usedNodes.length > 0) {
-          this.log(`${node.name} (${node.node_type}) uses:`);
-          for (const usedName of usedNodes) {
-            const targetNode = nodeByName.get(usedName);
-            if (targetNode) {
-              const edgeType = this.determineEdgeType(node, targetNode);
-              this.log(`  → ${usedName} (${targetNode.node_type}) [${edgeType}]`);
-              this.edges.push({
-                source_stable_id: node.stable_id,
-                target_stable_id: targetNode.stable_id,
-                edge_type: edgeType,
-                metadata: {},
-              });
+          const targetNode = binding.node!;
+          // Types and constants are matched by identifier references below
+          if (targetNode === node || REFERENCE_TARGET_TYPES.includes(targetNode.node_type)) continue;
+          if (this.isUsedIn(nodeCode, localName)) {
+            targets.push(targetNode);
+            if (binding.lazy) lazyTargets.add(targetNode);
+          }
+
+          // Calls on imported classes (`service.save()`, `Service.create()`) target the method
+          if (targetNode.node_type === 'class') {
+            const calledMethods = this.findCalledMethods(nodeCode, targetNode, '');
+            if (calledMethods.length === 0) continue;
+            const classIndex = targets.indexOf(targetNode);
+            if (classIndex !== -1) targets.splice(classIndex, 1);
+            targets.push(...calledMethods);
+          }
+        }
+
+        // `import('./About.vue')` bound to nothing, e.g. a route's `component: () => import(...)`
+        if (sourceFile && node.node_type !== 'module') {
+          for (const dynamicImport of this.getDynamicImports(node.file_path, sourceFile)) {
+            const { specifier, line, names, bindings: lazyBindings } = dynamicImport;
+            if (lazyBindings.length > 0 || line < node.start_line || line > node.end_line) continue;
+            const targetFile = this.resolver.resolve(node.file_path, specifier);
+            const targetNode = targetFile && this.findExportedNode(targetFile, names[0] ?? 'default');
+            if (targetNode && targetNode !== node) {
+              targets.push(targetNode);
+              lazyTargets.add(targetNode);
             }
           }
         }
+
+        // Calls between methods of the same class (`this.helper()`, `self.helper()`)
+        if (node.node_type === 'method' && typeof node.metadata?.class === 'string') {
+          const classNode = this.nodes.get(`${node.file_path}::${node.metadata.class}`);
+          const receiver = sourceFile ? '\\bthis\\s*' : '\\b(?:self|cls)\\s*';
+          if (classNode) {
+            targets.push(
+              ...this.findCalledMethods(nodeCode, classNode, receiver).filter((m) => m !== node)
+            );
+          }
+        }
+
+        // Calls of functions declared in the same file, including private and nested ones
+        const localTargets = new Set<LocalNode>();
+        if (sourceFile) {
+          for (const call of this.getLocalCalls(node.file_path, sourceFile)) {
+            if (call.line < node.start_line || call.line > node.end_line || bindings.has(call.name)) continue;
+            if (this.findEnclosingNode(node.file_path, call.line) !== node) continue;
+            const targetNode = this.resolveLocalFunction(node, call.name);
+            if (targetNode && targetNode !== node) {
+              targets.push(targetNode);
+              localTargets.add(targetNode);
+            }
+          }
+        }
+
+        // Tests exercise endpoints by URL (`request(app).get('/users/1')`, `fetch('/api/x')`)
+        if (node.node_type === 'test') {
+          targets.push(...this.findRequestedEndpoints(nodeCode));
+        }
+
+        // Non-REST clients: `trpc.user.getUser.useQuery()` and `gql` operations
+        if (!node.metadata?.api && sourceFile) {
+          targets.push(...this.findCalledProcedures(nodeCode, procedures));
+          targets.push(...this.findGraphqlOperationTargets(node, sourceFile));
+        }
+
+        // Shared contracts (types, interfaces, constants) referenced in signature or body
+        if (REFERENCE_SOURCE_TYPES.includes(node.node_type) && sourceFile) {
+          for (const name of this.getReferencedIdentifiers(sourceFile, node.start_line, node.end_line)) {
+            const targetNode = bindings.get(name)?.node ?? this.findFileNode(node.file_path, name);
+            if (
+              targetNode &&
+              targetNode !== node &&
+              REFERENCE_TARGET_TYPES.includes(targetNode.node_type)
+            ) {
+              targets.push(targetNode);
+            }
+          }
+        }
+
+        if (targets.length > 0) {
+          this.log(`${node.name} (${node.node_type}) uses:`);
+          for (const targetNode of new Set(targets)) {
+            if (linkedPairs.has(`${node.stable_id}->${targetNode.stable_id}`)) continue;
+            const edgeType = localTargets.has(targetNode) ? 'calls' : this.determineEdgeType(node, targetNode);
+            this.log(`  → ${targetNode.name} (${targetNode.node_type}) [${edgeType}]`);
+            this.edges.push({
+              source_stable_id: node.stable_id,
+              target_stable_id: targetNode.stable_id,
+              edge_type: edgeType,
+              metadata: {
+                ...(node.node_type === 'test' ? { test: true } : {}),
+                ...(lazyTargets.has(targetNode) ? { lazy: true } : {}),
+              },
+            });
+          }
+        }
       } catch (error) {
         this.log(`Error analyzing edges for ${node.name}: ${error}`);
       }
@@ -258,501 +783,2913 @@ class CoreAnalyzer {
     this.log(`Total edges found: ${this.edges.length}`);
   }
 
-  // ----------- Import / usage helpers -----------
+  /**
+   * File-level graph: `imports` edges between module nodes and
+   * `exports` edges from each module to the symbols it exposes.
+   */
+  private analyzeModuleEdges(): void {
+    let importEdges = 0;
+    let exportEdges = 0;
+
+    for (const [filePath, moduleImports] of this.moduleImports) {
+      const edgesByTarget = new Map<string, LocalEdge>();
+      for (const { specifier, names, reexport, lazy } of moduleImports) {
+        const targetPath = this.resolver.resolve(filePath, specifier);
+        if (!targetPath || targetPath === filePath) continue;
+
+        const existing = edgesByTarget.get(targetPath);
+        if (existing) {
+          const existingNames = existing.metadata!.names as string[];
+          existingNames.push(...names.filter((n) => !existingNames.includes(n)));
+          // Lazy only when every import of the target is
+          if (!lazy) delete existing.metadata!.lazy;
+          continue;
+        }
+        edgesByTarget.set(targetPath, {
+          source_stable_id: filePath,
+          target_stable_id: targetPath,
+          edge_type: 'imports',
+          metadata: {
+            specifier,
+            names: [...names],
+            ...(reexport ? { reexport: true } : {}),
+            ...(lazy ? { lazy: true } : {}),
+          },
+        });
+      }
+      this.edges.push(...edgesByTarget.values());
+      importEdges += edgesByTarget.size;
+    }
 
-  private getImportedNames(fileContent: string): Set<string> {
-    const imports = new Set<string>();
-    const defaultImportPattern = /import\s+(\w+)\s+from\s+['"][^'"]+['"]/g;
-    let match;
-    while ((match = defaultImportPattern.exec(fileContent)) !== null) {
-      imports.add(match[1]);
-    }
-    const namedImportPattern = /import\s*\{([^}]+)\}\s*from\s*['"][^'"]+['"]/g;
-    while ((match = namedImportPattern.exec(fileContent)) !== null) {
-      match[1].split(',').forEach((name) => {
-        const parts = name.trim().split(/\s+as\s+/);
-        const localName = parts[parts.length - 1].trim();
-        if (localName) imports.add(localName);
-      });
+    for (const [filePath, fileNodes] of this.nodesByFile) {
+      for (const node of fileNodes) {
+        if (node.node_type === 'module' || node.metadata?.exported !== true) continue;
+        this.edges.push({
+          source_stable_id: filePath,
+          target_stable_id: node.stable_id,
+          edge_type: 'exports',
+        });
+        exportEdges++;
+      }
     }
-    return imports;
+
+    this.log(`Module imports: ${importEdges}, exports: ${exportEdges}`);
   }
 
-  private findUsedNodes(
-    nodeCode: string,
-    knownNodes: Set<string>,
-    selfName: string,
-    imports: Set<string>
-  ): string[] {
-    const used: string[] = [];
-    for (const nodeName of knownNodes) {
-      if (nodeName === selfName) continue;
-      if (!imports.has(nodeName)) continue;
-
-      const kebabName = nodeName
-        .replace(/([a-z])([A-Z])/g, '$1-$2')
-        .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
-        .toLowerCase();
-      const usagePatterns = [
-        new RegExp(`<${nodeName}[\\s/>]`),
-        ...(kebabName !== nodeName ? [new RegExp(`<${kebabName}[\\s/>]`)] : []),
-        new RegExp(`\\b${nodeName}\\s*\\(`),
-        new RegExp(`<${nodeName}\\s*/>`),
-      ];
+  /**
+   * Endpoints whose route matches a path string literal in the given code.
+   */
+  private findRequestedEndpoints(nodeCode: string): LocalNode[] {
+    const urls = Array.from(nodeCode.matchAll(/['"`](\/[^'"`\s]*)['"`]/g), (m) => m[1]);
+    if (urls.length === 0) return [];
+    return Array.from(this.nodes.values()).filter(
+      (n) =>
+        n.node_type === 'endpoint' &&
+        typeof n.metadata?.route === 'string' &&
+        urls.some((url) => routeMatches(n.metadata!.route as string, url))
+    );
+  }
 
-      for (const pattern of usagePatterns) {
-        if (pattern.test(nodeCode)) {
-          used.push(nodeName);
-          break;
-        }
+  /** tRPC procedures called through a client proxy: `<client>.user.getUser.useQuery(` */
+  private findCalledProcedures(nodeCode: string, procedures: TrpcProcedures | undefined): LocalNode[] {
+    if (!procedures || !/\.\s*(?:use\w+|query|mutate|subscribe|fetch|prefetch)\s*\(/.test(nodeCode)) return [];
+    const called = new Set<LocalNode>();
+    for (const match of nodeCode.matchAll(procedures.pattern)) {
+      procedures.byRoute.get(match[1])!.forEach((n) => called.add(n));
+    }
+    return Array.from(called);
+  }
+
+  /** tRPC procedures by route, with one pattern matching client calls of any of them */
+  private getTrpcProcedures(): TrpcProcedures | undefined {
+    const byRoute = new Map<string, LocalNode[]>();
+    for (const node of this.nodes.values()) {
+      if (node.node_type !== 'endpoint' || node.metadata?.api !== 'trpc') continue;
+      const route = node.metadata.route as string;
+      byRoute.set(route, [...(byRoute.get(route) ?? []), node]);
+    }
+    if (byRoute.size === 0) return undefined;
+
+    return { byRoute, pattern: getTrpcClientPattern(Array.from(byRoute.keys())) };
+  }
+
+  /**
+   * GraphQL fields selected by operations a node sends: `gql` documents written
+   * inside it, or held in constants it references (in its file or imported).
+   */
+  private findGraphqlOperationTargets(node: LocalNode, sourceFile: ts.SourceFile): LocalNode[] {
+    const operations: GraphqlOperation[] = [];
+    for (const document of this.graphqlDocuments.get(node.file_path) ?? []) {
+      if (document.line >= node.start_line && document.line <= node.end_line) {
+        operations.push(...document.operations);
+      }
+    }
+    if (this.graphqlDocuments.size > 0) {
+      for (const name of this.getReferencedIdentifiers(sourceFile, node.start_line, node.end_line)) {
+        operations.push(...this.findGraphqlDocumentOperations(node.file_path, sourceFile, name));
       }
     }
-    return used;
+    if (operations.length === 0) return [];
+
+    const matches = Array.from(this.nodes.values()).filter(
+      (n) =>
+        n.node_type === 'endpoint' &&
+        n.metadata?.api === 'graphql' &&
+        operations.some(
+          (op) => op.rootType.toUpperCase() === n.metadata!.method && op.fields.includes(n.metadata!.route as string)
+        )
+    );
+    // Prefer the schema field; it already `routes_to` its resolver
+    const inSchema = new Set(matches.filter((n) => n.metadata?.schema).map((n) => n.name));
+    return matches.filter((n) => n.metadata?.schema || !inSchema.has(n.name));
   }
 
-  private determineEdgeType(source: LocalNode, target: LocalNode): EdgeType {
-    if (source.node_type === 'component' && target.node_type === 'component') return 'uses';
-    if (target.node_type === 'hook') return 'uses';
-    if (source.node_type === 'class' && target.node_type === 'class') return 'extends';
-    if (target.node_type === 'endpoint') return 'calls';
-    return 'uses';
+  /** Operations in the `gql` constant a local name refers to */
+  private findGraphqlDocumentOperations(
+    filePath: string,
+    sourceFile: ts.SourceFile,
+    name: string
+  ): GraphqlOperation[] {
+    let targetFile: string | undefined = filePath;
+    let constName: string | undefined = name;
+    const specifier = getImportSpecifier(sourceFile, name);
+    if (specifier) {
+      const importedName = getImportedName(sourceFile, name);
+      const resolved = this.resolver.resolve(filePath, specifier);
+      const definition = resolved && importedName ? this.resolveExport(resolved, importedName) : undefined;
+      targetFile = definition?.filePath;
+      constName = definition?.name;
+    }
+    if (!targetFile || !constName) return [];
+    return (this.graphqlDocuments.get(targetFile) ?? [])
+      .filter((document) => document.constName === constName)
+      .flatMap((document) => document.operations);
   }
 
-  // ----------- Extraction helpers -----------
+  /**
+   * Flags every testable node with whether any test reaches it, so the graph
+   * can highlight untested code.
+   */
+  private markTestedNodes(): void {
+    const tested = new Set(
+      this.edges.filter((e) => e.metadata?.test === true).map((e) => e.target_stable_id)
+    );
+    let testable = 0;
+    let untested = 0;
+    for (const node of this.nodes.values()) {
+      if (!TESTABLE_TYPES.includes(node.node_type) || node.metadata?.external) continue;
+      const isTested = tested.has(node.stable_id);
+      node.metadata = { ...node.metadata, tested: isTested };
+      testable++;
+      if (!isTested) untested++;
+    }
+    this.log(`Untested nodes: ${untested} of ${testable}`);
+  }
 
-  private getExportedNames(text: string): Set<string> {
-    const exported = new Set<string>();
-    const directExportPattern =
-      /export\s+(?:default\s+)?(?:async\s+)?(?:function|const|let|var|class)\s+(\w+)/g;
-    let match;
-    while ((match = directExportPattern.exec(text)) !== null) {
-      exported.add(match[1]);
-    }
-    const namedExportPattern = /export\s*\{([^}]+)\}/g;
-    while ((match = namedExportPattern.exec(text)) !== null) {
-      match[1].split(',').forEach((name) => {
-        const cleanName = name.trim().split(/\s+as\s+/)[0].trim();
-        if (cleanName) exported.add(cleanName);
+  /**
+   * Turns recorded `extends` / `implements` clauses and injected constructor
+   * parameters into edges. Targets are looked up in the declaring file, then
+   * through its imports; targets from packages or globals (`React.Component`,
+   * `Error`) become external nodes.
+   */
+  private analyzeHeritageEdges(): void {
+    for (const heritage of this.pendingHeritage) {
+      const target = PYTHON_FILE_PATTERN.test(heritage.filePath)
+        ? this.resolvePythonReference(heritage.filePath, heritage.targetName, heritage.targetType)
+        : this.resolveHeritageTarget(heritage);
+      if (!target) {
+        this.log(`  Unresolved ${heritage.edgeType} target ${heritage.targetName} for ${heritage.sourceId}`);
+        continue;
+      }
+
+      this.log(`${heritage.sourceId} ${heritage.edgeType} ${target.stable_id}`);
+      this.edges.push({
+        source_stable_id: heritage.sourceId,
+        target_stable_id: target.stable_id,
+        edge_type: heritage.edgeType,
       });
     }
-    const defaultExportPattern = /export\s+default\s+(\w+)/g;
-    while ((match = defaultExportPattern.exec(text)) !== null) {
-      if (!['function', 'class', 'async'].includes(match[1])) exported.add(match[1]);
-    }
-    return exported;
   }
 
-  private extractImports(text: string, _filePath: string): Map<string, string> {
-    const imports = new Map<string, string>();
-    const importPattern =
-      /import\s+(?:(?:\{([^}]+)\})|(\w+))?\s*(?:,\s*(?:\{([^}]+)\}|(\w+)))?\s*from\s*['"]([^'"]+)['"]/g;
-    let match;
-    while ((match = importPattern.exec(text)) !== null) {
-      const namedImports1 = match[1];
-      const defaultImport1 = match[2];
-      const namedImports2 = match[3];
-      const defaultImport2 = match[4];
-      const sourcePath = match[5];
+  /** Local node for a heritage target, or an external node when it comes from a package or global */
+  private resolveHeritageTarget(heritage: PendingHeritage): LocalNode | undefined {
+    const sourceFile = this.parseFile(heritage.filePath, this.readFile(heritage.filePath));
+    const bindings = this.getImportBindings(heritage.filePath, sourceFile);
+    const [head, member] = heritage.targetName.split('.');
+
+    let target: LocalNode | undefined;
+    if (member === undefined) {
+      target = this.findFileNode(heritage.filePath, head) ?? bindings.get(head)?.node;
+    } else {
+      const namespace = bindings.get(head)?.namespace;
+      target = namespace ? this.findExportedNode(namespace, member) : undefined;
+    }
+    if (target) return target;
+
+    const specifier = getImportSpecifier(sourceFile, head);
+    const isLocal =
+      specifier !== undefined
+        ? this.resolver.isLocalSpecifier(heritage.filePath, specifier)
+        : isDeclaredInFile(sourceFile, head);
+    return isLocal ? undefined : this.addExternalNode(heritage.targetName, heritage.targetType, specifier);
+  }
 
-      if (
-        !sourcePath.startsWith('.') &&
-        !sourcePath.startsWith('@/') &&
-        !sourcePath.startsWith('~/')
-      ) {
+  /**
+   * Prefixes routes declared on mounted routers (`app.use('/api', users)`,
+   * Fastify `register(plugin, { prefix })`, Hono `route('/x', sub)`, nested tRPC
+   * routers) with their full mount path, following mounts across files. The stable ID keeps the
+   * route as declared so it doesn't change when a router is remounted.
+   */
+  private composeMountedRoutes(): void {
+    // Routers that declare routes or have others mounted on them; other `use()` arguments are middleware
+    const knownRouters = new Set([
+      ...this.routerEndpoints.keys(),
+      ...this.routerMounts.map((m) => m.parentId),
+    ]);
+    const mountedOn = new Map<string, PendingMount>();
+    for (const mount of this.routerMounts) {
+      const childId = mount.childId ?? this.resolveRouterId(mount.filePath, mount.childName);
+      if (!childId || childId === mount.parentId || !knownRouters.has(childId)) continue;
+      if (mountedOn.has(childId)) {
+        this.log(`  Router ${childId} is mounted more than once; using its first mount`);
         continue;
       }
+      mountedOn.set(childId, mount);
+    }
 
-      [namedImports1, namedImports2].forEach((namedImports) => {
-        if (namedImports) {
-          namedImports.split(',').forEach((imp) => {
-            const name = imp.trim().split(/\s+as\s+/).pop()?.trim();
-            if (name) imports.set(name, sourcePath);
-          });
+    for (const [routerId, endpointIds] of this.routerEndpoints) {
+      const mounts: PendingMount[] = [];
+      const seen = new Set([routerId]);
+      for (let mount = mountedOn.get(routerId); mount; mount = mountedOn.get(mount.parentId)) {
+        mounts.unshift(mount);
+        if (seen.has(mount.parentId)) break;
+        seen.add(mount.parentId);
+      }
+      if (mounts.length === 0) continue;
+      const prefixes = mounts.map((m) => m.prefix);
+
+      for (const endpointId of endpointIds) {
+        const endpoint = this.nodes.get(endpointId);
+        const { method, route } = endpoint?.metadata ?? {};
+        if (!endpoint || typeof route !== 'string') continue;
+
+        const fullRoute =
+          endpoint.metadata?.api === 'trpc'
+            ? [...prefixes, route].filter(Boolean).join('.')
+            : joinRoutes(...prefixes, route);
+        endpoint.name = `${method} ${fullRoute}`;
+        endpoint.qualified_name = `${endpoint.file_path}::${endpoint.name}`;
+        endpoint.metadata = { ...endpoint.metadata, route: fullRoute, declaredRoute: route };
+        this.log(`  Mounted route: ${endpointId} -> ${fullRoute}`);
+
+        const steps = this.getMountMiddleware(mounts, route, knownRouters);
+        if (steps.length === 0) continue;
+        const pending = this.pendingRoutes.find((r) => r.endpointId === endpointId);
+        if (pending) {
+          pending.steps.unshift(...steps);
+        } else {
+          this.pendingRoutes.push({ endpointId, filePath: endpoint.file_path, steps });
         }
-      });
-      [defaultImport1, defaultImport2].forEach((defaultImport) => {
-        if (defaultImport) imports.set(defaultImport, sourcePath);
-      });
+      }
     }
-    return imports;
   }
 
-  // ----------- Vue components -----------
+  /**
+   * `app.use()` middleware of each parent (outermost first) that covers a mounted
+   * route: registered before the mount and, when path-limited, matching the route
+   * below that parent. Other routers passed to the same `use()` are skipped.
+   */
+  private getMountMiddleware(mounts: PendingMount[], route: string, knownRouters: Set<string>): RouteStep[] {
+    return mounts.flatMap((mount, index) => {
+      const routeBelowParent = joinRoutes(...mounts.slice(index).map((m) => m.prefix), route);
+      return (mount.middleware ?? [])
+        .filter(({ prefix }) => prefix === undefined || routeHasPrefix(routeBelowParent, prefix))
+        .flatMap(({ names }) => names)
+        .filter((name) => !knownRouters.has(this.resolveRouterId(mount.filePath, name) ?? ''))
+        .map((name) => ({ name, role: 'middleware' as const, scope: 'app' as const, filePath: mount.filePath }));
+    });
+  }
 
-  private extractVueComponents(text: string, lines: string[], filePath: string): void {
-    const baseName = path.basename(filePath, '.vue');
-    const nameFromFile = baseName
-      .split(/[-_\s]+/)
-      .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-      .join('');
+  /** `file#name` of the router or plugin a local name refers to, following imports */
+  private resolveRouterId(filePath: string, name: string): string | undefined {
+    const sourceFile = this.parseFile(filePath, this.readFile(filePath));
+    if (isDeclaredInFile(sourceFile, name)) return `${filePath}#${name}`;
+
+    const specifier = getImportSpecifier(sourceFile, name);
+    const targetFile = specifier ? this.resolver.resolve(filePath, specifier) : undefined;
+    const importedName = getImportedName(sourceFile, name);
+    if (!targetFile || !importedName) return undefined;
+    const definition = this.resolveExport(targetFile, importedName);
+    if (definition) return `${definition.filePath}#${definition.name}`;
+    if (importedName === 'default') {
+      return `${targetFile}#${this.defaultExports.get(targetFile) ?? 'default'}`;
+    }
+    return `${targetFile}#${importedName}`;
+  }
 
-    let componentName = nameFromFile;
-    let startLine = 1;
-    let endLine = lines.length;
+  /**
+   * Links each Express endpoint to its middleware and handler with `routes_to`
+   * edges numbered in execution order. Referenced functions become `middleware` /
+   * `handler` nodes; package middleware (`cors()`, `express.json()`) becomes external.
+   */
+  private analyzeRouteEdges(): void {
+    for (const route of this.pendingRoutes) {
+      route.steps.forEach((step, index) => {
+        const filePath = step.filePath ?? route.filePath;
+        const target = PYTHON_FILE_PATTERN.test(filePath)
+          ? this.resolvePythonRouteStep(filePath, step)
+          : this.resolveRouteStep(filePath, this.parseFile(filePath, this.readFile(filePath)), step);
+        if (!target) {
+          this.log(`  Unresolved ${step.role} ${step.name} for ${route.endpointId}`);
+          return;
+        }
 
-    const scriptRegex = /<script[^>]*>([\s\S]*?)<\/script>/g;
-    let scriptMatch: RegExpExecArray | null;
-    const scriptBlocks: string[] = [];
-    while ((scriptMatch = scriptRegex.exec(text)) !== null) {
-      scriptBlocks.push(scriptMatch[1]);
+        this.log(`${route.endpointId} routes_to ${target.stable_id} (${index + 1})`);
+        this.edges.push({
+          source_stable_id: route.endpointId,
+          target_stable_id: target.stable_id,
+          edge_type: 'routes_to',
+          metadata: {
+            order: index + 1,
+            role: step.role,
+            scope: step.scope,
+            ...(step.kind ? { kind: step.kind } : {}),
+          },
+        });
+      });
     }
-    if (scriptBlocks.length > 0) {
-      const firstScriptStart = text.indexOf('<script');
-      const firstScriptEnd = text.indexOf('</script>') + '</script>'.length;
-      startLine = text.substring(0, firstScriptStart).split('\n').length;
-      endLine = text.substring(0, firstScriptEnd).split('\n').length;
+  }
 
-      for (const scriptContent of scriptBlocks) {
-        const defineOptionsMatch = scriptContent.match(
-          /defineOptions\s*\(\s*\{\s*name\s*:\s*['"]([^'"]+)['"]/
-        );
-        if (defineOptionsMatch) {
-          componentName = defineOptionsMatch[1];
-          break;
-        }
-        const exportDefaultNameMatch = scriptContent.match(
-          /export\s+default\s*\{[^}]*name\s*:\s*['"]([^'"]+)['"]/s
-        );
-        if (exportDefaultNameMatch) {
-          componentName = exportDefaultNameMatch[1];
-          break;
-        }
-        const defineComponentObj = scriptContent.match(
-          /defineComponent\s*\(\s*\{\s*name\s*:\s*['"]([^'"]+)['"]/
-        );
-        const defineComponentStr = scriptContent.match(
-          /defineComponent\s*\(\s*['"]([^'"]+)['"]/
-        );
-        if (defineComponentObj) {
-          componentName = defineComponentObj[1];
-          break;
-        }
-        if (defineComponentStr) {
-          componentName = defineComponentStr[1];
-          break;
+  private resolveRouteStep(
+    filePath: string,
+    sourceFile: ts.SourceFile,
+    step: RouteStep
+  ): LocalNode | undefined {
+    const bindings = this.getImportBindings(filePath, sourceFile);
+    const [head, member] = step.name.split('.');
+
+    let target: LocalNode | undefined;
+    if (member === undefined) {
+      target =
+        this.findFileNode(filePath, head) ??
+        bindings.get(head)?.node ??
+        this.addRouteFunctionNode(filePath, head, step.role);
+      if (!target) {
+        // Imported functions that aren't nodes yet (unexported names, skipped helpers)
+        const specifier = getImportSpecifier(sourceFile, head);
+        const targetFile = specifier ? this.resolver.resolve(filePath, specifier) : undefined;
+        const importedName = getImportedName(sourceFile, head);
+        const definition = targetFile && importedName ? this.resolveExport(targetFile, importedName) : undefined;
+        if (definition) {
+          target =
+            this.findFileNode(definition.filePath, definition.name) ??
+            this.addRouteFunctionNode(definition.filePath, definition.name, step.role);
         }
       }
+    } else {
+      // `users.create` on a namespace import, `UserController.create` on a class
+      const binding = bindings.get(head);
+      const owner = binding?.node ?? this.findFileNode(filePath, head);
+      if (binding?.namespace) {
+        target = this.findExportedNode(binding.namespace, member);
+      } else if (owner?.node_type === 'class') {
+        target = this.classMethods.get(owner.stable_id)?.find((m) => m.name === member);
+      }
     }
 
-    this.log(`  Vue component: ${componentName} @ ${filePath}:${startLine}`);
-    this.stats.vueComponentsFound++;
+    if (target) {
+      if (step.kind && target.node_type === 'class') {
+        // Nest guards, interceptors and pipes are classes
+        target.node_type = 'middleware';
+        target.metadata = { ...target.metadata, kind: step.kind };
+        this.stats.classesFound--;
+        this.countRouteNode('middleware');
+        return target;
+      }
+      if (!ROUTE_STEP_TYPES.includes(target.node_type)) return undefined;
+      if (target.node_type === 'function') {
+        // A plain exported function turns out to be route code
+        target.node_type = step.role;
+        this.stats.exportedFunctionsFound--;
+        this.countRouteNode(step.role);
+      }
+      return target;
+    }
 
-    this.addNode({
-      stable_id: `${filePath}::${componentName}`,
-      name: componentName,
-      qualified_name: `${filePath}::${componentName}`,
-      node_type: 'component',
-      language: 'vue',
+    const specifier = getImportSpecifier(sourceFile, head);
+    if (specifier === undefined || this.resolver.isLocalSpecifier(filePath, specifier)) {
+      return undefined;
+    }
+    return this.addExternalNode(step.name, step.role, specifier);
+  }
+
+  /** Node for a top-level function that no extractor picked up */
+  private addRouteFunctionNode(
+    filePath: string,
+    name: string,
+    role: RouteStep['role']
+  ): LocalNode | undefined {
+    const text = this.readFile(filePath);
+    const sourceFile = this.parseFile(filePath, text);
+    const found = getTopLevelFunctions(sourceFile).find((f) => f.name === name);
+    if (!found) return undefined;
+
+    const lines = text.split('\n');
+    const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, found.declaration);
+    const exported =
+      this.getExportedNames(sourceFile).has(name) || this.defaultExports.get(filePath) === name;
+
+    this.log(`  ${role === 'handler' ? 'Handler' : 'Middleware'}: ${name} @ ${filePath}:${startLine}`);
+    this.countRouteNode(role);
+
+    const node: LocalNode = {
+      stable_id: `${filePath}::${name}`,
+      name,
+      qualified_name: `${filePath}::${name}`,
+      node_type: role,
+      language: 'typescript',
       file_path: filePath,
       start_line: startLine,
+      start_column: startColumn,
       end_line: endLine,
+      end_column: endColumn,
       snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-      signature: `<script> ... </script>`,
-      metadata: { framework: 'vue' },
-    });
+      signature: this.getSignature(sourceFile, found.declaration, found.fn.body?.getStart(sourceFile)),
+      metadata: { exported },
+    };
+    this.addNode(node);
+    return node;
   }
 
-  // ----------- React components -----------
+  private countRouteNode(role: RouteStep['role']): void {
+    if (role === 'handler') {
+      this.stats.handlersFound++;
+    } else {
+      this.stats.middlewareFound++;
+    }
+  }
 
-  private extractComponents(
-    text: string,
-    lines: string[],
-    filePath: string,
-    exportedNames: Set<string>,
-    imports: Map<string, string>
-  ): void {
-    const patterns = [
-      /(?:export\s+)?(?:default\s+)?function\s+([A-Z]\w*)\s*\([^)]*\)/g,
-      /(?:export\s+)?(?:default\s+)?const\s+([A-Z]\w*)\s*(?::\s*(?:React\.)?(?:FC|FunctionComponent|Component)[^=]*)?\s*=\s*(?:\([^)]*\)|[a-z]\w*)\s*=>/g,
-      /(?:export\s+)?const\s+([A-Z]\w*)\s*=\s*function/g,
-      /(?:export\s+)?(?:default\s+)?const\s+([A-Z]\w*)\s*=\s*(?:React\.)?(?:memo|forwardRef)\s*\(/g,
-    ];
+  /** GraphQL schema fields `routes_to` the resolvers implementing them */
+  private analyzeResolverEdges(): void {
+    const graphqlEndpoints = Array.from(this.nodes.values()).filter(
+      (n) => n.node_type === 'endpoint' && n.metadata?.api === 'graphql'
+    );
+    const resolvers = graphqlEndpoints.filter((n) => !n.metadata?.schema);
 
-    if (imports.size > 0) {
-      const componentImports = Array.from(imports.entries()).filter(
-        ([name]) => /^[A-Z]/.test(name) || name.startsWith('use')
-      );
-      if (componentImports.length > 0) {
-        this.log(
-          `  Imports: ${componentImports.map(([n, p]) => `${n} from ${p}`).join(', ')}`
-        );
+    for (const field of graphqlEndpoints.filter((n) => n.metadata?.schema)) {
+      for (const resolver of resolvers.filter((r) => r.name === field.name)) {
+        this.log(`${field.stable_id} resolved by ${resolver.stable_id}`);
+        this.edges.push({
+          source_stable_id: field.stable_id,
+          target_stable_id: resolver.stable_id,
+          edge_type: 'routes_to',
+          metadata: { order: 1, role: 'handler', scope: 'route' },
+        });
       }
     }
+  }
 
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const name = match[1];
-        const startLine = text.substring(0, match.index).split('\n').length;
-        const endLine = this.findBlockEnd(lines, startLine - 1);
-        const functionBody = lines.slice(startLine - 1, endLine).join('\n');
+  /**
+   * File-system routers (Next.js, SvelteKit): each page and layout is wrapped by
+   * the nearest layout in an enclosing directory (pages-router pages by
+   * `pages/_app`), and uses the SvelteKit `load` next to it.
+   */
+  private analyzePageEdges(): void {
+    const routeNodes = Array.from(this.nodes.values()).filter(
+      (n) => n.metadata?.routeKind === 'page' || n.metadata?.routeKind === 'layout'
+    );
+    const layoutsByDir = new Map(
+      routeNodes
+        .filter((n) => n.metadata?.routeKind === 'layout')
+        .map((n) => [path.posix.dirname(n.file_path), n])
+    );
 
-        if (!this.containsJSX(functionBody)) {
-          this.stats.skippedFunctions++;
-          continue;
+    for (const load of this.nodes.values()) {
+      const kind = load.metadata?.routeKind;
+      if (kind !== 'page-load' && kind !== 'layout-load') continue;
+      const dir = path.posix.dirname(load.file_path);
+      const component = routeNodes.find(
+        (n) => path.posix.dirname(n.file_path) === dir && `${n.metadata?.routeKind}-load` === kind
+      );
+      if (!component) continue;
+      this.log(`${component.stable_id} loads ${load.stable_id}`);
+      this.edges.push({
+        source_stable_id: component.stable_id,
+        target_stable_id: load.stable_id,
+        edge_type: 'uses',
+        metadata: { load: true },
+      });
+    }
+
+    for (const node of routeNodes) {
+      let dir = path.posix.dirname(node.file_path);
+      while (dir !== '.' && dir !== '') {
+        // A layout is nested in the layout of a parent directory, not in itself
+        const layout = layoutsByDir.get(dir);
+        if (layout && layout !== node) {
+          this.log(`${layout.stable_id} wraps ${node.stable_id}`);
+          this.edges.push({
+            source_stable_id: layout.stable_id,
+            target_stable_id: node.stable_id,
+            edge_type: 'uses',
+            metadata: { layout: true },
+          });
+          break;
         }
+        dir = path.posix.dirname(dir);
+      }
+    }
+  }
 
-        const isExported = exportedNames.has(name);
-        this.log(
-          `  Component: ${name}${isExported ? ' (exported)' : ''} @ ${filePath}:${startLine}`
-        );
-        this.stats.componentsFound++;
+  /** Components `uses` the child components rendered in their template */
+  private analyzeTemplateEdges(): void {
+    this.analyzeAngularTemplateEdges();
+    this.analyzeVueTemplateEdges();
+  }
 
-        this.addNode({
-          stable_id: `${filePath}::${name}`,
-          name,
-          qualified_name: `${filePath}::${name}`,
-          node_type: 'component',
-          language: 'typescript',
-          file_path: filePath,
-          start_line: startLine,
-          end_line: endLine,
-          snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-          signature: match[0].trim(),
-          metadata: { exported: isExported },
+  /** Angular: element selectors of other components appearing in the template */
+  private analyzeAngularTemplateEdges(): void {
+    const components = Array.from(this.nodes.values()).filter(
+      (n) => n.node_type === 'component' && n.metadata?.framework === 'angular'
+    );
+    const bySelector = new Map<string, LocalNode>();
+    for (const component of components) {
+      for (const selector of getElementSelectors(String(component.metadata?.selector ?? ''))) {
+        bySelector.set(selector, component);
+      }
+    }
+    if (bySelector.size === 0) return;
+
+    for (const component of components) {
+      const template = this.getAngularTemplate(component);
+      if (!template) continue;
+      for (const [selector, target] of bySelector) {
+        if (target === component || !templateRenders(template, selector)) continue;
+        this.log(`${component.stable_id} renders <${selector}>`);
+        this.edges.push({
+          source_stable_id: component.stable_id,
+          target_stable_id: target.stable_id,
+          edge_type: 'uses',
+          metadata: { template: true },
         });
       }
     }
   }
 
-  // ----------- Hooks / Composables -----------
-
-  private extractHooks(
-    text: string,
-    lines: string[],
-    filePath: string,
-    exportedNames: Set<string>,
-    isVueFile = false
-  ): void {
-    const patterns = [
-      /(?:export\s+)?(?:default\s+)?function\s+(use[A-Z]\w*)\s*\(/g,
-      /(?:export\s+)?(?:default\s+)?const\s+(use[A-Z]\w*)\s*=\s*(?:\([^)]*\)|[a-z]\w*)\s*=>/g,
-    ];
+  /**
+   * Vue: `<UserCard>` / `<user-card>` tags in `<template>`, resolved through the
+   * file's imports, then global `app.component()` registrations, then (for
+   * auto-imported components) a uniquely named `.vue` component.
+   */
+  private analyzeVueTemplateEdges(): void {
+    const components = Array.from(this.nodes.values()).filter(
+      (n) => n.node_type === 'component' && n.metadata?.framework === 'vue'
+    );
+    const byName = new Map<string, LocalNode[]>();
+    for (const component of components) {
+      byName.set(component.name, [...(byName.get(component.name) ?? []), component]);
+    }
 
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const name = match[1];
-        const isExported = exportedNames.has(name);
-        if (!isExported && !isVueFile) {
-          this.stats.skippedFunctions++;
+    for (const component of components) {
+      const text = this.readFile(component.file_path);
+      const bindings = this.getImportBindings(component.file_path, this.parseFile(component.file_path, text));
+      const linked = new Set<string>();
+
+      for (const tag of getVueTemplateTags(text)) {
+        const name = toPascalCase(tag);
+        const binding = bindings.get(name) ?? bindings.get(tag);
+        const global = this.globalComponents.get(name);
+        const target =
+          binding?.node ??
+          (global &&
+            (this.getImportBindings(global.file, this.parseFile(global.file, this.readFile(global.file))).get(
+              global.localName
+            )?.node ??
+              this.findFileNode(global.file, global.localName))) ??
+          (byName.get(name)?.length === 1 ? byName.get(name)![0] : undefined);
+        if (!target || target === component || linked.has(target.stable_id)) continue;
+
+        linked.add(target.stable_id);
+        this.log(`${component.stable_id} renders <${tag}>`);
+        this.edges.push({
+          source_stable_id: component.stable_id,
+          target_stable_id: target.stable_id,
+          edge_type: 'uses',
+          metadata: { template: true },
+        });
+      }
+    }
+  }
+
+  /** Inline `template`, or the contents of `templateUrl` */
+  private getAngularTemplate(component: LocalNode): string | undefined {
+    const sourceFile = this.parseFile(component.file_path, this.readFile(component.file_path));
+    const classDecl = sourceFile.statements.find(
+      (s): s is ts.ClassDeclaration => ts.isClassDeclaration(s) && s.name?.text === component.name
+    );
+    const options = classDecl && getAngularComponent(classDecl);
+    if (options?.template !== undefined) return options.template;
+    const templateUrl = options?.templateUrl;
+    if (!templateUrl) return undefined;
+    try {
+      return this.readFile(path.posix.join(path.posix.dirname(component.file_path), templateUrl));
+    } catch (error) {
+      this.log(`  Could not read template ${templateUrl} for ${component.stable_id}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /** Placeholder node for a symbol defined outside the analyzed files */
+  private addExternalNode(name: string, nodeType: NodeType, specifier?: string): LocalNode {
+    const stableId = `external::${specifier ?? 'global'}::${name}`;
+    const existing = this.nodes.get(stableId);
+    if (existing) return existing;
+
+    const node: LocalNode = {
+      stable_id: stableId,
+      name,
+      qualified_name: specifier ? `${specifier}::${name}` : name,
+      node_type: nodeType,
+      file_path: specifier ?? '',
+      start_line: 0,
+      start_column: 0,
+      end_line: 0,
+      end_column: 0,
+      metadata: { external: true, ...(specifier ? { package: specifier } : {}) },
+    };
+    this.addNode(node);
+    return node;
+  }
+
+  // ----------- Import / usage helpers -----------
+
+  /**
+   * Maps each local import name in a file to the node its source module actually
+   * defines. Unresolvable project imports fall back to a name match, but only
+   * when exactly one node carries that name.
+   */
+  private getImportBindings(filePath: string, sourceFile: ts.SourceFile): Map<string, ImportBinding> {
+    const cached = this.importBindings.get(filePath);
+    if (cached) return cached;
+
+    const bindings = new Map<string, ImportBinding>();
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+      if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+      const specifier = statement.moduleSpecifier.text;
+      const targetFile = this.resolver.resolve(filePath, specifier);
+      if (!targetFile && !this.resolver.isLocalSpecifier(filePath, specifier)) continue;
+
+      const bind = (localName: string, importedName: string): void => {
+        const node =
+          (targetFile && this.findExportedNode(targetFile, importedName)) ||
+          this.findUniqueNode(importedName === 'default' ? localName : importedName);
+        if (node) bindings.set(localName, { node });
+      };
+
+      const clause = statement.importClause;
+      if (clause.name) bind(clause.name.text, 'default');
+      if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) {
+          bind(element.name.text, (element.propertyName ?? element.name).text);
+        }
+      } else if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings) && targetFile) {
+        bindings.set(clause.namedBindings.name.text, { namespace: targetFile });
+      }
+    }
+
+    // `const Heavy = lazy(() => import('./Heavy'))`, `const { a } = await import('./a')`
+    for (const { specifier, bindings: lazyBindings } of this.getDynamicImports(filePath, sourceFile)) {
+      const targetFile = this.resolver.resolve(filePath, specifier);
+      if (!targetFile) continue;
+      for (const { localName, exportName } of lazyBindings) {
+        if (bindings.has(localName)) continue;
+        if (exportName === undefined) {
+          bindings.set(localName, { namespace: targetFile, lazy: true });
           continue;
         }
+        const node = this.findExportedNode(targetFile, exportName);
+        if (node) bindings.set(localName, { node, lazy: true });
+      }
+    }
+
+    this.importBindings.set(filePath, bindings);
+    return bindings;
+  }
+
+  private getDynamicImports(filePath: string, sourceFile: ts.SourceFile): DynamicImport[] {
+    if (!this.dynamicImports.has(filePath)) this.dynamicImports.set(filePath, getDynamicImports(sourceFile));
+    return this.dynamicImports.get(filePath)!;
+  }
+
+  /** The node a file exposes under `exportName` (`'default'` for its default export) */
+  private findExportedNode(filePath: string, exportName: string): LocalNode | undefined {
+    const target = this.resolveExport(filePath, exportName);
+    return target ? this.findFileNode(target.filePath, target.name) : undefined;
+  }
+
+  /**
+   * The module and local name that actually define an export, following
+   * `export { a as b }`, `export { Foo as Bar } from './y'` and
+   * `export * from './x'` through any number of barrels.
+   */
+  private resolveExport(
+    filePath: string,
+    exportName: string,
+    seen: Set<string> = new Set()
+  ): { filePath: string; name: string } | undefined {
+    const key = `${filePath}#${exportName}`;
+    if (seen.has(key)) return undefined;
+    seen.add(key);
+
+    const reexports = this.reexports.get(filePath) ?? [];
+    const direct = reexports.find((r) => r.exportName === exportName);
+    if (direct) {
+      if (!direct.specifier) return { filePath, name: direct.importedName };
+      const targetFile = this.resolver.resolve(filePath, direct.specifier);
+      // `export * as ns from './x'` is a module, not a definition
+      if (!targetFile || direct.importedName === '*') return undefined;
+      return this.resolveExport(targetFile, direct.importedName, seen);
+    }
+
+    const name = exportName === 'default' ? this.defaultExports.get(filePath) : exportName;
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (name && (this.findFileNode(filePath, name) || (sourceFile && isDeclaredInFile(sourceFile, name)))) {
+      return { filePath, name };
+    }
+    if (exportName === 'default') return undefined;
+
+    for (const star of reexports.filter((r) => r.exportName === '*')) {
+      const targetFile = this.resolver.resolve(filePath, star.specifier!);
+      const found = targetFile && this.resolveExport(targetFile, exportName, seen);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private getLocalCalls(filePath: string, sourceFile: ts.SourceFile): LocalCall[] {
+    if (!this.localCalls.has(filePath)) this.localCalls.set(filePath, getLocalCalls(sourceFile));
+    return this.localCalls.get(filePath)!;
+  }
+
+  /**
+   * The function a plain name refers to from inside `scope`: a function nested
+   * in it or one of its enclosing functions (innermost first), else a top-level one
+   */
+  private resolveLocalFunction(scope: LocalNode, name: string): LocalNode | undefined {
+    for (let id: unknown = scope.stable_id; typeof id === 'string'; id = this.nodes.get(id)?.metadata?.parent) {
+      const nested = this.nodes.get(`${id}.${name}`);
+      if (nested?.metadata?.nested) return nested;
+    }
+    const target = this.findFileNode(scope.file_path, name);
+    return target && !target.metadata?.nested && LOCAL_CALL_TARGET_TYPES.includes(target.node_type)
+      ? target
+      : undefined;
+  }
+
+  /** Top-level node declared in a file under the given name */
+  private findFileNode(filePath: string, name: string): LocalNode | undefined {
+    return this.nodesByFile
+      .get(filePath)
+      ?.find((n) => n.name === name && n.node_type !== 'method' && n.node_type !== 'module');
+  }
+
+  /** Nodes a module exposes by export name, re-exports included */
+  private getExportedNodes(filePath: string, seen: Set<string> = new Set()): Map<string, LocalNode> {
+    const exported = new Map<string, LocalNode>();
+    if (seen.has(filePath)) return exported;
+    seen.add(filePath);
+
+    for (const node of this.nodesByFile.get(filePath) ?? []) {
+      if (node.node_type !== 'module' && node.metadata?.exported === true) exported.set(node.name, node);
+    }
+    for (const { exportName, specifier } of this.reexports.get(filePath) ?? []) {
+      if (exportName !== '*') {
+        const node = this.findExportedNode(filePath, exportName);
+        if (node) exported.set(exportName, node);
+        continue;
+      }
+      const targetFile = this.resolver.resolve(filePath, specifier!);
+      for (const [name, node] of targetFile ? this.getExportedNodes(targetFile, seen) : []) {
+        if (name !== 'default' && !exported.has(name)) exported.set(name, node);
+      }
+    }
+    return exported;
+  }
+
+  private findUniqueNode(name: string): LocalNode | undefined {
+    let found: LocalNode | undefined;
+    for (const node of this.nodes.values()) {
+      if (node.name !== name || node.node_type === 'method' || node.node_type === 'module') continue;
+      if (found) return undefined;
+      found = node;
+    }
+    return found;
+  }
+
+  /**
+   * JSX (`<Name`, `<name-kebab`), call (`Name(`) or form action (`action={name}`)
+   * usage of a local name
+   */
+  private isUsedIn(nodeCode: string, localName: string): boolean {
+    const name = escapeRegExp(localName);
+    const kebabName = localName
+      .replace(/([a-z])([A-Z])/g, '$1-$2')
+      .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+      .toLowerCase();
+    const usagePatterns = [
+      new RegExp(`<${name}[\\s/>]`),
+      ...(kebabName !== localName ? [new RegExp(`<${escapeRegExp(kebabName)}[\\s/>]`)] : []),
+      new RegExp(`\\b${name}\\s*\\(`),
+      new RegExp(`\\b(?:action|formAction)\\s*=\\s*\\{\\s*${name}\\s*\\}`),
+    ];
+    return usagePatterns.some((pattern) => pattern.test(nodeCode));
+  }
+
+  /**
+   * Methods of `classNode` invoked as `<receiver>.method(` in the given code.
+   * An empty receiver pattern matches any receiver; private methods are then skipped
+   * since they can't be called from outside the class.
+   */
+  private findCalledMethods(nodeCode: string, classNode: LocalNode, receiver: string): LocalNode[] {
+    const methods = this.classMethods.get(classNode.stable_id) ?? [];
+    return methods.filter(
+      (method) =>
+        (receiver !== '' || method.metadata?.visibility !== 'private') &&
+        new RegExp(`${receiver}\\.\\s*${escapeRegExp(method.name)}\\s*\\(`).test(nodeCode)
+    );
+  }
+
+  /**
+   * Identifier names appearing in code between the given (1-based, inclusive) lines.
+   */
+  private getReferencedIdentifiers(
+    sourceFile: ts.SourceFile,
+    startLine: number,
+    endLine: number
+  ): Set<string> {
+    const names = new Set<string>();
+    const rangeStart = sourceFile.getPositionOfLineAndCharacter(startLine - 1, 0);
+    const rangeEnd =
+      endLine < sourceFile.getLineStarts().length
+        ? sourceFile.getPositionOfLineAndCharacter(endLine, 0)
+        : sourceFile.getEnd();
+    const visit = (child: ts.Node): void => {
+      if (child.getEnd() < rangeStart || child.getStart(sourceFile) > rangeEnd) return;
+      if (ts.isIdentifier(child)) names.add(child.text);
+      ts.forEachChild(child, visit);
+    };
+    visit(sourceFile);
+    return names;
+  }
+
+  private determineEdgeType(source: LocalNode, target: LocalNode): EdgeType {
+    if (target.node_type === 'method') return 'calls';
+    if (REFERENCE_TARGET_TYPES.includes(target.node_type)) return 'references';
+    if (source.node_type === 'component' && target.node_type === 'component') return 'uses';
+    if (target.node_type === 'hook') return 'uses';
+    if (target.node_type === 'endpoint') return 'calls';
+    return 'uses';
+  }
+
+  // ----------- Extraction helpers -----------
+
+  private getExportedNames(sourceFile: ts.SourceFile): Set<string> {
+    const exported = new Set<string>();
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement)) {
+        // `export { a, b as c }` exports local declarations; `export { a } from './x'` does not
+        if (!statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            exported.add((element.propertyName ?? element.name).text);
+          }
+        }
+        continue;
+      }
+      if (ts.isExportAssignment(statement)) {
+        if (ts.isIdentifier(statement.expression)) exported.add(statement.expression.text);
+        continue;
+      }
+      if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue;
+
+      if (ts.isVariableStatement(statement)) {
+        for (const decl of statement.declarationList.declarations) {
+          for (const name of getBindingNames(decl.name)) exported.add(name);
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) ||
+          ts.isClassDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement) ||
+          ts.isTypeAliasDeclaration(statement) ||
+          ts.isEnumDeclaration(statement)) &&
+        statement.name
+      ) {
+        exported.add(statement.name.text);
+      }
+    }
+    return exported;
+  }
+
+  private extractImports(sourceFile: ts.SourceFile, _filePath: string): Map<string, string> {
+    const imports = new Map<string, string>();
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+      if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+      const sourcePath = statement.moduleSpecifier.text;
+      if (
+        !sourcePath.startsWith('.') &&
+        !sourcePath.startsWith('@/') &&
+        !sourcePath.startsWith('~/')
+      ) {
+        continue;
+      }
+
+      for (const localName of getImportClauseNames(statement.importClause)) {
+        imports.set(localName, sourcePath);
+      }
+    }
+    return imports;
+  }
+
+  // ----------- Tests -----------
+
+  /**
+   * One `test` node per `it(...)` / `test(...)` case (including `.only`, `.skip`
+   * and `.each` forms), named after its enclosing `describe` blocks.
+   */
+  private extractTests(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const visit = (node: ts.Node, suites: string[]): void => {
+      const call = ts.isCallExpression(node) ? getTestCall(sourceFile, node) : undefined;
+      if (!call) {
+        ts.forEachChild(node, (child) => visit(child, suites));
+        return;
+      }
+
+      if (call.kind === 'suite') {
+        ts.forEachChild(node, (child) => visit(child, [...suites, call.title]));
+        return;
+      }
+
+      const name = [...suites, call.title].join(' > ');
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, node);
+
+      this.log(`  Test: ${name} @ ${filePath}:${startLine}`);
+      this.stats.testsFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'test',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, node, call.body?.getStart(sourceFile)),
+        metadata: { suite: suites, ...(call.modifier ? { modifier: call.modifier } : {}) },
+      });
+    };
+    visit(sourceFile, []);
+  }
+
+  // ----------- Modules -----------
+
+  private extractModule(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const moduleImports: ModuleImport[] = [];
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        moduleImports.push({
+          specifier: statement.moduleSpecifier.text,
+          names: statement.importClause ? getImportClauseNames(statement.importClause) : [],
+          reexport: false,
+        });
+      } else if (
+        ts.isExportDeclaration(statement) &&
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        const clause = statement.exportClause;
+        moduleImports.push({
+          specifier: statement.moduleSpecifier.text,
+          names:
+            clause && ts.isNamedExports(clause)
+              ? clause.elements.map((e) => e.name.text)
+              : clause && ts.isNamespaceExport(clause)
+                ? [clause.name.text]
+                : ['*'],
+          reexport: true,
+        });
+      }
+    }
+    for (const { specifier, names } of this.getDynamicImports(filePath, sourceFile)) {
+      moduleImports.push({ specifier, names, reexport: false, lazy: true });
+    }
+    this.moduleImports.set(filePath, moduleImports);
+    this.reexports.set(filePath, getReExports(sourceFile));
+    this.stats.modulesFound++;
+
+    this.addNode({
+      stable_id: filePath,
+      name: filePath,
+      qualified_name: filePath,
+      node_type: 'module',
+      language: /\.vue$/.test(filePath) ? 'vue' : /\.svelte$/.test(filePath) ? 'svelte' : 'typescript',
+      file_path: filePath,
+      start_line: 1,
+      start_column: 0,
+      end_line: lines.length,
+      end_column: lines[lines.length - 1].length,
+      snippet: lines.slice(0, Math.min(30, lines.length)).join('\n'),
+      metadata: { imports: moduleImports.length },
+    });
+  }
+
+  // ----------- Vue components -----------
+
+  /**
+   * One component per `.vue` file, spanning all of its `<script>` blocks (a plain
+   * `<script>` next to `<script setup>` is common), with props and emits from
+   * `defineProps` / `defineEmits` or the Options API `props` / `emits`.
+   */
+  private extractVueComponents(
+    sourceFile: ts.SourceFile,
+    text: string,
+    lines: string[],
+    filePath: string
+  ): void {
+    let componentName = toPascalCase(path.basename(filePath, '.vue'));
+    let startLine = 1;
+    let startColumn = 0;
+    let endLine = lines.length;
+    let endColumn = lines[lines.length - 1].length;
+
+    const scriptRegex = /<script[^>]*>([\s\S]*?)<\/script>/g;
+    let scriptMatch: RegExpExecArray | null;
+    const scriptBlocks: string[] = [];
+    while ((scriptMatch = scriptRegex.exec(text)) !== null) {
+      scriptBlocks.push(scriptMatch[1]);
+    }
+    if (scriptBlocks.length > 0) {
+      const firstScriptStart = text.indexOf('<script');
+      const lastScriptEnd = text.lastIndexOf('</script>') + '</script>'.length;
+      const start = sourceFile.getLineAndCharacterOfPosition(firstScriptStart);
+      const end = sourceFile.getLineAndCharacterOfPosition(lastScriptEnd);
+      startLine = start.line + 1;
+      startColumn = start.character;
+      endLine = end.line + 1;
+      endColumn = end.character;
+
+      componentName = getVueComponentName(scriptBlocks) ?? componentName;
+    }
+
+    const { props, emits } = getVueComponentInterface(sourceFile);
+
+    this.defaultExports.set(filePath, componentName);
+    this.log(`  Vue component: ${componentName} @ ${filePath}:${startLine}`);
+    this.stats.vueComponentsFound++;
+
+    this.addNode({
+      stable_id: `${filePath}::${componentName}`,
+      name: componentName,
+      qualified_name: `${filePath}::${componentName}`,
+      node_type: 'component',
+      language: 'vue',
+      file_path: filePath,
+      start_line: startLine,
+      start_column: startColumn,
+      end_line: endLine,
+      end_column: endColumn,
+      snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+      signature: `<${componentName}${props.map((p) => ` ${p}`).join('')}>`,
+      metadata: {
+        framework: 'vue',
+        exported: true,
+        ...(props.length > 0 ? { props } : {}),
+        ...(emits.length > 0 ? { emits } : {}),
+      },
+    });
+  }
+
+  /** `app.component('BaseButton', BaseButton)` makes a component usable in every template */
+  private extractGlobalComponents(sourceFile: ts.SourceFile, filePath: string): void {
+    for (const { name, localName } of findGlobalComponents(sourceFile)) {
+      this.log(`  Global component: ${name} @ ${filePath}`);
+      this.globalComponents.set(name, { file: filePath, localName });
+    }
+  }
+
+  // ----------- Svelte components -----------
+
+  /**
+   * A `.svelte` file is one component named after the file, with props from
+   * `export let` (Svelte 4) or `let { ... } = $props()` (Svelte 5). SvelteKit
+   * `+page` / `+layout` components also get their route.
+   */
+  private extractSvelteComponent(
+    sourceFile: ts.SourceFile,
+    text: string,
+    lines: string[],
+    filePath: string
+  ): void {
+    const componentName = toPascalCase(path.basename(filePath, '.svelte').replace(/^\+/, ''));
+
+    const props = getSvelteProps(sourceFile);
+    const scriptStart = text.indexOf('<script');
+    const start = sourceFile.getLineAndCharacterOfPosition(Math.max(0, scriptStart));
+    const startLine = start.line + 1;
+    const kitRoute = getSvelteKitRoute(filePath);
+
+    this.defaultExports.set(filePath, componentName);
+    this.log(`  Svelte component: ${componentName} @ ${filePath}:${startLine}`);
+    this.stats.svelteComponentsFound++;
+
+    this.addNode({
+      stable_id: `${filePath}::${componentName}`,
+      name: componentName,
+      qualified_name: `${filePath}::${componentName}`,
+      node_type: 'component',
+      language: 'svelte',
+      file_path: filePath,
+      start_line: startLine,
+      start_column: start.character,
+      end_line: lines.length,
+      end_column: lines[lines.length - 1].length,
+      snippet: lines.slice(startLine - 1, Math.min(startLine + 29, lines.length)).join('\n'),
+      signature: `<${componentName}${props.map((p) => ` ${p}`).join('')}>`,
+      metadata: {
+        framework: 'svelte',
+        exported: true,
+        ...(props.length > 0 ? { props } : {}),
+        ...(kitRoute && kitRoute.kind !== 'server'
+          ? { route: kitRoute.route, routeKind: kitRoute.kind, router: 'sveltekit' }
+          : {}),
+      },
+    });
+    if (kitRoute && kitRoute.kind !== 'server') this.stats.pageRoutesFound++;
+  }
+
+  /** SvelteKit `load` in `+page.ts` / `+layout.server.ts`: the data behind a page or layout */
+  private markSvelteKitLoad(filePath: string): void {
+    const kitRoute = getSvelteKitRoute(filePath);
+    if (!kitRoute?.data) return;
+    const load = this.findFileNode(filePath, 'load');
+    if (!load) return;
+
+    this.log(`  SvelteKit ${kitRoute.kind} load: ${kitRoute.route} @ ${filePath}:${load.start_line}`);
+    load.metadata = {
+      ...load.metadata,
+      route: kitRoute.route,
+      routeKind: `${kitRoute.kind}-load`,
+      router: 'sveltekit',
+    };
+  }
+
+  // ----------- React components -----------
+
+  private extractComponents(
+    sourceFile: ts.SourceFile,
+    functions: TopLevelFunction[],
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>,
+    imports: Map<string, string>
+  ): void {
+    if (imports.size > 0) {
+      const componentImports = Array.from(imports.entries()).filter(
+        ([name]) => /^[A-Z]/.test(name) || name.startsWith('use')
+      );
+      if (componentImports.length > 0) {
+        this.log(
+          `  Imports: ${componentImports.map(([n, p]) => `${n} from ${p}`).join(', ')}`
+        );
+      }
+    }
+
+    for (const { name, declaration, fn } of functions) {
+      if (!/^[A-Z]/.test(name)) continue;
+
+      if (!containsJsx(fn)) {
+        this.stats.skippedFunctions++;
+        continue;
+      }
+
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, declaration);
+      const isExported = exportedNames.has(name);
+      this.log(
+        `  Component: ${name}${isExported ? ' (exported)' : ''} @ ${filePath}:${startLine}`
+      );
+      this.stats.componentsFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'component',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, declaration, fn.body?.getStart(sourceFile)),
+        metadata: { exported: isExported },
+      });
+    }
+  }
+
+  // ----------- Next.js pages and layouts -----------
+
+  /**
+   * App-router `page` / `layout` files and pages-router pages become route nodes:
+   * the default-exported component, annotated with the URL it serves.
+   */
+  private extractNextRoutes(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const nextRoute = getNextRoute(filePath, this.rootPath, this.nextProjectDirs);
+    if (!nextRoute || (nextRoute.kind !== 'page' && nextRoute.kind !== 'layout')) return;
+
+    const defaultName = getDefaultExportName(sourceFile);
+    let node = defaultName ? this.findFileNode(filePath, defaultName) : undefined;
+    if (node && node.node_type !== 'component') return;
+
+    if (!node) {
+      // Anonymous default exports aren't picked up as components
+      const defaultExport = getDefaultExportFunction(sourceFile);
+      if (!defaultExport) return;
+      const name = defaultName ?? (nextRoute.kind === 'page' ? 'Page' : 'Layout');
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, defaultExport.declaration);
+      node = {
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'component',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(
+          sourceFile,
+          defaultExport.declaration,
+          defaultExport.fn.body?.getStart(sourceFile)
+        ),
+        metadata: { exported: true },
+      };
+      this.addNode(node);
+    }
+
+    this.log(`  Next ${nextRoute.kind}: ${nextRoute.route} @ ${filePath}:${node.start_line}`);
+    this.stats.pageRoutesFound++;
+    node.metadata = {
+      ...node.metadata,
+      route: nextRoute.route,
+      routeKind: nextRoute.kind,
+      router: nextRoute.router,
+    };
+  }
+
+  // ----------- Hooks / Composables -----------
+
+  private extractHooks(
+    sourceFile: ts.SourceFile,
+    functions: TopLevelFunction[],
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>,
+    isSingleFileComponent = false
+  ): void {
+    for (const { name, declaration, fn } of functions) {
+      if (!/^use[A-Z]/.test(name)) continue;
+
+      const isExported = exportedNames.has(name);
+      const isPrivate = !isExported && !isSingleFileComponent;
+      if (isPrivate && this.granularity === 'exported-only') {
+        this.stats.skippedFunctions++;
+        continue;
+      }
+
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, declaration);
+
+      this.log(`  Hook: ${name} @ ${filePath}:${startLine}`);
+      this.stats.hooksFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'hook',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, declaration, fn.body?.getStart(sourceFile)),
+        metadata: { exported: isExported, ...(isPrivate ? { private: true } : {}) },
+      });
+    }
+  }
+
+  // ----------- API Endpoints -----------
+
+  private extractEndpoints(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const found: FoundEndpoint[] = [];
+
+    const httpRoutes = findHttpRoutes(sourceFile, filePath);
+    found.push(...httpRoutes.endpoints);
+    this.routerMounts.push(...httpRoutes.mounts);
+
+    found.push(...findNestEndpoints(sourceFile));
+
+    // Next.js route handlers and SvelteKit `+server` endpoints: export async function GET(...)
+    const nextRoute = getNextRoute(filePath, this.rootPath, this.nextProjectDirs);
+    const kitRoute = getSvelteKitRoute(filePath);
+    const handlerRoute =
+      nextRoute?.kind === 'route'
+        ? nextRoute.route
+        : kitRoute?.kind === 'server'
+          ? kitRoute.route
+          : filePath.replace(/.*\/api/, '/api').replace(/\.\w+$/, '');
+    found.push(...findRouteHandlers(sourceFile, handlerRoute));
+    if (nextRoute?.kind === 'api') found.push(...findPagesApiHandlers(sourceFile, nextRoute.route));
+
+    // SvelteKit form actions: `export const actions = { default: ..., create: ... }` in +page.server.ts
+    if (kitRoute?.kind === 'page' && kitRoute.data) found.push(...findFormActions(sourceFile, kitRoute.route));
+
+    found.push(...findServerActions(sourceFile));
+
+    // tRPC procedures and GraphQL resolvers
+    const trpc = findTrpcProcedures(sourceFile, filePath);
+    found.push(...trpc.endpoints, ...findGraphqlResolvers(sourceFile));
+    this.routerMounts.push(...trpc.mounts);
+
+    for (const item of found) {
+      const { method, route, node, bodyStart, exported, steps, routerId, serverAction, api } = item;
+      const name = item.name ?? `${method} ${route}`;
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, node);
+
+      this.log(`  Endpoint: ${name} @ ${filePath}:${startLine}`);
+      this.stats.endpointsFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'endpoint',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, node, bodyStart),
+        metadata: {
+          method,
+          route,
+          exported,
+          ...(serverAction ? { serverAction } : {}),
+          ...(api ? { api } : {}),
+        },
+      });
+
+      if (steps && steps.length > 0) {
+        this.pendingRoutes.push({ endpointId: `${filePath}::${name}`, filePath, steps });
+      }
+      if (routerId) {
+        this.routerEndpoints.set(routerId, [
+          ...(this.routerEndpoints.get(routerId) ?? []),
+          `${filePath}::${name}`,
+        ]);
+      }
+    }
+  }
+
+  // ----------- GraphQL documents -----------
+
+  /**
+   * `gql` / `graphql` tagged templates: SDL root-type fields become endpoints;
+   * operations are recorded so phase 2 can link the code that sends them.
+   */
+  private extractGraphqlDocuments(sourceFile: ts.SourceFile, text: string, lines: string[], filePath: string): void {
+    for (const { document, offset, constName } of findGraphqlTemplates(sourceFile)) {
+      this.extractGraphqlSchema(document, offset, text, lines, filePath);
+
+      const operations = parseOperations(document);
+      if (operations.length > 0) {
+        const documents = this.graphqlDocuments.get(filePath) ?? [];
+        documents.push({ line: sourceFile.getLineAndCharacterOfPosition(offset).line + 1, constName, operations });
+        this.graphqlDocuments.set(filePath, documents);
+      }
+    }
+  }
+
+  /** One endpoint per `type Query` / `Mutation` / `Subscription` field in an SDL document */
+  private extractGraphqlSchema(
+    document: string,
+    offset: number,
+    text: string,
+    lines: string[],
+    filePath: string
+  ): void {
+    for (const field of parseSchemaFields(document)) {
+      const method = field.rootType.toUpperCase();
+      const name = `${method} ${field.name}`;
+      const { line: startLine, column: startColumn } = getTextPosition(text, offset + field.start);
+      const { line: endLine, column: endColumn } = getTextPosition(text, offset + field.end);
+
+      this.log(`  GraphQL field: ${field.rootType}.${field.name} @ ${filePath}:${startLine}`);
+      this.stats.endpointsFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'endpoint',
+        language: 'graphql',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, endLine).join('\n'),
+        signature: document.slice(field.start, field.end).replace(/\s+/g, ' '),
+        metadata: { method, route: field.name, api: 'graphql', schema: true },
+      });
+    }
+  }
+
+  // ----------- Python -----------
+
+  /**
+   * Python modules: classes with their methods, public top-level functions and
+   * FastAPI / Flask / Django routes, as nodes with `language: 'python'`.
+   */
+  private analyzePythonFile(text: string, lines: string[], filePath: string): void {
+    const module = this.parsePythonFile(filePath, text);
+    const isExported = (name: string) =>
+      module.exportList ? module.exportList.includes(name) : !name.startsWith('_');
+
+    const moduleImports: ModuleImport[] = [];
+    for (const imported of module.imports) {
+      if (imported.localName) {
+        moduleImports.push({ specifier: imported.module, names: [imported.localName], reexport: false });
+        continue;
+      }
+      // `from app import models` imports a submodule, `from app.models import User` a name
+      const names: string[] = [];
+      for (const { name, localName } of imported.names) {
+        const submodule = joinPythonModule(imported.module, name);
+        if (this.resolver.resolve(filePath, submodule)) {
+          moduleImports.push({ specifier: submodule, names: [localName], reexport: false });
+        } else {
+          names.push(localName);
+        }
+      }
+      if (names.length > 0) moduleImports.push({ specifier: imported.module, names, reexport: false });
+    }
+    this.moduleImports.set(filePath, moduleImports);
+    this.stats.modulesFound++;
+
+    this.addNode({
+      stable_id: filePath,
+      name: filePath,
+      qualified_name: filePath,
+      node_type: 'module',
+      language: 'python',
+      file_path: filePath,
+      start_line: 1,
+      start_column: 0,
+      end_line: lines.length,
+      end_column: lines[lines.length - 1].length,
+      snippet: lines.slice(0, Math.min(30, lines.length)).join('\n'),
+      metadata: { imports: moduleImports.length },
+    });
+
+    const routerPrefixes = getPythonRouters(module);
+    for (const definition of module.definitions) {
+      if (definition.kind === 'class') {
+        this.addPythonClass(definition, lines, filePath, isExported(definition.name));
+        continue;
+      }
+      const routes = getPythonRoutes(definition);
+      for (const { receiver, method, route } of routes) {
+        const prefix = routerPrefixes.get(receiver);
+        this.addPythonEndpoint(
+          filePath,
+          lines,
+          method,
+          joinRoutes(prefix ?? '', route),
+          definition.startLine,
+          definition.endLine,
+          definition.signature,
+          prefix !== undefined ? `${filePath}#${receiver}` : undefined
+        );
+      }
+      if (routes.length === 0 && (isExported(definition.name) || this.granularity !== 'exported-only')) {
+        this.addPythonFunction(definition, lines, filePath, isExported(definition.name));
+      }
+    }
+
+    for (const statement of module.statements) {
+      const mount = getPythonRouterMount(statement);
+      const childId = mount && this.resolvePythonRouterId(filePath, mount.childName, routerPrefixes);
+      if (mount && childId) {
+        this.routerMounts.push({
+          filePath,
+          parentId: `${filePath}#${mount.parent}`,
+          prefix: mount.prefix,
+          childName: mount.childName,
+          childId,
+        });
+      }
+      this.extractDjangoUrlPatterns(statement, lines, filePath);
+    }
+
+    findPythonConfigReads(text, filePath).forEach((read) => this.recordConfigRead(read));
+  }
+
+  private parsePythonFile(filePath: string, text?: string): PythonModule {
+    const cached = this.pythonModules.get(filePath);
+    if (cached) return cached;
+    const module = parsePythonModule(text ?? this.readFile(filePath));
+    this.pythonModules.set(filePath, module);
+    return module;
+  }
+
+  private addPythonClass(
+    definition: PythonDefinition,
+    lines: string[],
+    filePath: string,
+    isExported: boolean
+  ): void {
+    const classId = `${filePath}::${definition.name}`;
+    const bases = getPythonBases(definition.params);
+    const decorators = definition.decorators.map((d) => d.name);
+
+    const { startColumn, endColumn } = this.getLineColumns(lines, definition.startLine, definition.endLine);
+    this.log(`  Class: ${definition.name}${bases.length ? `(${bases.join(', ')})` : ''} @ ${filePath}:${definition.defLine}`);
+    this.stats.classesFound++;
+
+    this.addNode({
+      stable_id: classId,
+      name: definition.name,
+      qualified_name: classId,
+      node_type: 'class',
+      language: 'python',
+      file_path: filePath,
+      start_line: definition.startLine,
+      start_column: startColumn,
+      end_line: definition.endLine,
+      end_column: endColumn,
+      snippet: lines.slice(definition.startLine - 1, Math.min(definition.startLine + 29, definition.endLine)).join('\n'),
+      signature: definition.signature,
+      metadata: {
+        ...(bases.length > 0 ? { bases } : {}),
+        ...(decorators.length > 0 ? { decorators } : {}),
+        exported: isExported,
+      },
+    });
+
+    for (const base of bases) {
+      this.pendingHeritage.push({
+        sourceId: classId,
+        filePath,
+        targetName: base,
+        edgeType: 'extends',
+        targetType: 'class',
+      });
+    }
+
+    const methods: LocalNode[] = [];
+    for (const member of definition.members) {
+      const stableId = `${classId}.${member.name}`;
+      const memberDecorators = member.decorators.map((d) => d.name);
+      const isStatic = memberDecorators.includes('staticmethod') || memberDecorators.includes('classmethod');
+      // `__private` (name-mangled) and `_protected` by convention; dunder methods are public
+      const isDunder = /^__\w+__$/.test(member.name);
+      const visibility =
+        member.name.startsWith('__') && !isDunder
+          ? 'private'
+          : member.name.startsWith('_') && !isDunder
+            ? 'protected'
+            : 'public';
+
+      const span = this.getLineColumns(lines, member.startLine, member.endLine);
+      this.log(`    Method: ${definition.name}.${member.name}${isStatic ? ' (static)' : ''} @ ${filePath}:${member.defLine}`);
+      this.stats.methodsFound++;
+
+      const node: LocalNode = {
+        stable_id: stableId,
+        name: member.name,
+        qualified_name: stableId,
+        node_type: 'method',
+        language: 'python',
+        file_path: filePath,
+        start_line: member.startLine,
+        start_column: span.startColumn,
+        end_line: member.endLine,
+        end_column: span.endColumn,
+        snippet: lines.slice(member.startLine - 1, Math.min(member.startLine + 29, member.endLine)).join('\n'),
+        signature: member.signature,
+        metadata: {
+          class: definition.name,
+          visibility,
+          static: isStatic,
+          async: member.async,
+        },
+      };
+      this.addNode(node);
+      methods.push(node);
+
+      this.edges.push({
+        source_stable_id: classId,
+        target_stable_id: stableId,
+        edge_type: 'defines',
+      });
+    }
+    this.classMethods.set(classId, methods);
+  }
+
+  private addPythonFunction(
+    definition: PythonDefinition,
+    lines: string[],
+    filePath: string,
+    isExported: boolean
+  ): void {
+    const { startColumn, endColumn } = this.getLineColumns(lines, definition.startLine, definition.endLine);
+    this.log(`  Function: ${definition.name} @ ${filePath}:${definition.defLine}`);
+    this.stats.exportedFunctionsFound++;
+
+    this.addNode({
+      stable_id: `${filePath}::${definition.name}`,
+      name: definition.name,
+      qualified_name: `${filePath}::${definition.name}`,
+      node_type: 'function',
+      language: 'python',
+      file_path: filePath,
+      start_line: definition.startLine,
+      start_column: startColumn,
+      end_line: definition.endLine,
+      end_column: endColumn,
+      snippet: lines.slice(definition.startLine - 1, Math.min(definition.startLine + 29, definition.endLine)).join('\n'),
+      signature: definition.signature,
+      metadata: {
+        exported: isExported,
+        ...(isExported ? {} : { private: true }),
+        async: definition.async,
+        ...(definition.decorators.length > 0 ? { decorators: definition.decorators.map((d) => d.name) } : {}),
+      },
+    });
+  }
+
+  private addPythonEndpoint(
+    filePath: string,
+    lines: string[],
+    method: string,
+    route: string,
+    startLine: number,
+    endLine: number,
+    signature: string,
+    routerId?: string
+  ): string {
+    const name = `${method} ${route}`;
+    const stableId = `${filePath}::${name}`;
+    const { startColumn, endColumn } = this.getLineColumns(lines, startLine, endLine);
+
+    this.log(`  Endpoint: ${name} @ ${filePath}:${startLine}`);
+    this.stats.endpointsFound++;
+
+    this.addNode({
+      stable_id: stableId,
+      name,
+      qualified_name: stableId,
+      node_type: 'endpoint',
+      language: 'python',
+      file_path: filePath,
+      start_line: startLine,
+      start_column: startColumn,
+      end_line: endLine,
+      end_column: endColumn,
+      snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+      signature,
+      metadata: { method, route, exported: true },
+    });
+    if (routerId) {
+      this.routerEndpoints.set(routerId, [...(this.routerEndpoints.get(routerId) ?? []), stableId]);
+    }
+    return stableId;
+  }
+
+  /**
+   * Django `urlpatterns`: `path('users/<int:pk>/', views.user_detail)` becomes an
+   * endpoint routed to its view; `path('api/', include('api.urls'))` mounts the
+   * included module's patterns under the prefix.
+   */
+  private extractDjangoUrlPatterns(statement: PythonStatement, lines: string[], filePath: string): void {
+    const routerId = `${filePath}#urlpatterns`;
+
+    for (const { call, pattern, route, line, include, handler } of getDjangoUrlPatterns(statement)) {
+      if (include) {
+        const target = this.resolver.resolve(filePath, include);
+        if (target) {
+          this.routerMounts.push({
+            filePath,
+            parentId: routerId,
+            prefix: route,
+            childName: include,
+            childId: `${target}#urlpatterns`,
+          });
+        }
+        continue;
+      }
+
+      const endpointId = this.addPythonEndpoint(
+        filePath,
+        lines,
+        'ALL',
+        joinRoutes(route),
+        line,
+        line,
+        `${call}('${pattern}'${handler ? `, ${handler}` : ''})`,
+        routerId
+      );
+      if (handler) {
+        this.pendingRoutes.push({
+          endpointId,
+          filePath,
+          steps: [{ name: handler, role: 'handler', scope: 'route' }],
+        });
+      }
+    }
+  }
+
+  /** File a local Python import name refers to, plus the imported name unless it is a submodule */
+  private resolvePythonImport(filePath: string, localName: string): { file: string; name?: string } | undefined {
+    for (const imported of this.parsePythonFile(filePath).imports) {
+      if (imported.localName === localName) {
+        const file = this.resolver.resolve(filePath, imported.module);
+        return file ? { file } : undefined;
+      }
+      const match = imported.names.find((n) => n.localName === localName);
+      if (!match) continue;
+      const submodule = this.resolver.resolve(filePath, joinPythonModule(imported.module, match.name));
+      if (submodule) return { file: submodule };
+      const file = this.resolver.resolve(filePath, imported.module);
+      return file ? { file, name: match.name } : undefined;
+    }
+    return undefined;
+  }
+
+  /** The Python counterpart of `getImportBindings` */
+  private getPythonImportBindings(filePath: string): Map<string, ImportBinding> {
+    const cached = this.importBindings.get(filePath);
+    if (cached) return cached;
+
+    const bindings = new Map<string, ImportBinding>();
+    for (const imported of this.parsePythonFile(filePath).imports) {
+      const localNames = imported.localName ? [imported.localName] : imported.names.map((n) => n.localName);
+      for (const localName of localNames) {
+        const target = this.resolvePythonImport(filePath, localName);
+        if (!target) continue;
+        if (target.name === undefined) {
+          bindings.set(localName, { namespace: target.file });
+        } else {
+          const node = this.findFileNode(target.file, target.name);
+          if (node) bindings.set(localName, { node });
+        }
+      }
+    }
+
+    this.importBindings.set(filePath, bindings);
+    return bindings;
+  }
+
+  /**
+   * Node for a dotted Python reference (`get_user`, `views.UserView`,
+   * `models.Model`): same-file definitions, then imports. Names imported from
+   * packages, and builtins, become external nodes of `externalType`.
+   */
+  private resolvePythonReference(filePath: string, reference: string, externalType: NodeType): LocalNode | undefined {
+    const [head, ...members] = reference.split('.');
+    const binding = this.getPythonImportBindings(filePath).get(head);
+
+    let target = this.findFileNode(filePath, head) ?? binding?.node;
+    let rest = members;
+    if (!target && binding?.namespace && members.length > 0) {
+      target = this.findFileNode(binding.namespace, members[0]);
+      rest = members.slice(1);
+    }
+    if (target) {
+      if (rest.length === 0) return target;
+      return target.node_type === 'class' && rest.length === 1
+        ? this.classMethods.get(target.stable_id)?.find((m) => m.name === rest[0])
+        : undefined;
+    }
+
+    const module = this.parsePythonFile(filePath);
+    const imported = module.imports.find(
+      (i) => i.localName === head || i.names.some((n) => n.localName === head)
+    );
+    if (imported) {
+      return this.resolver.isLocalSpecifier(filePath, imported.module)
+        ? undefined
+        : this.addExternalNode(reference, externalType, imported.module);
+    }
+    const isDeclared =
+      module.definitions.some((d) => d.name === head) ||
+      module.statements.some((s) => new RegExp(`^${escapeRegExp(head)}\\s*(?::[^=]+)?=`).test(s.text));
+    return isDeclared ? undefined : this.addExternalNode(reference, externalType);
+  }
+
+  /** Django views: functions become `handler` nodes, class-based views stay classes */
+  private resolvePythonRouteStep(filePath: string, step: RouteStep): LocalNode | undefined {
+    const target = this.resolvePythonReference(filePath, step.name, step.role);
+    if (target?.node_type === 'function') {
+      target.node_type = step.role;
+      this.stats.exportedFunctionsFound--;
+      this.countRouteNode(step.role);
+    }
+    return target;
+  }
+
+  /** `file#router` for a router or app named in `include_router()` / `register_blueprint()` / `mount()` */
+  private resolvePythonRouterId(
+    filePath: string,
+    childName: string,
+    localRouters: Map<string, string>
+  ): string | undefined {
+    const [head, member] = childName.split('.');
+    if (member === undefined && localRouters.has(head)) return `${filePath}#${head}`;
+
+    const target = this.resolvePythonImport(filePath, head);
+    if (!target) return undefined;
+    if (member !== undefined) return target.name === undefined ? `${target.file}#${member}` : undefined;
+    return target.name !== undefined ? `${target.file}#${target.name}` : undefined;
+  }
+
+  // ----------- Classes -----------
+
+  private extractClasses(
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>
+  ): void {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+
+      const name = statement.name.text;
+      const extendsClass = getHeritageNames(sourceFile, statement, ts.SyntaxKind.ExtendsKeyword)[0];
+      const implementsNames = getHeritageNames(sourceFile, statement, ts.SyntaxKind.ImplementsKeyword);
+      const decorators = (getDecorators(statement) ?? []).map(getCallName).filter((d): d is string => !!d);
+      // Angular `@Component` classes are components; their selector links templates together
+      const component = getAngularComponent(statement);
+      const selector = component?.selector;
+      const isExported = exportedNames.has(name);
+      if (!isExported && this.granularity === 'exported-only') {
+        this.stats.skippedFunctions++;
+        continue;
+      }
+
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, statement);
+
+      if (component) {
+        this.log(`  Angular component: ${name}${selector ? ` <${selector}>` : ''} @ ${filePath}:${startLine}`);
+        this.stats.componentsFound++;
+      } else {
+        this.log(
+          `  Class: ${name}${extendsClass ? ` extends ${extendsClass}` : ''} @ ${filePath}:${startLine}`
+        );
+        this.stats.classesFound++;
+      }
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: component ? 'component' : 'class',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, statement, getOpenBraceStart(sourceFile, statement)),
+        metadata: {
+          extends: extendsClass,
+          ...(implementsNames.length > 0 ? { implements: implementsNames } : {}),
+          ...(decorators.length > 0 ? { decorators } : {}),
+          ...(decorators.includes('Injectable') ? { provider: true } : {}),
+          ...(component ? { framework: 'angular', ...(selector ? { selector } : {}) } : {}),
+          exported: isExported,
+          ...(isExported ? {} : { private: true }),
+        },
+      });
+
+      if (extendsClass) {
+        this.pendingHeritage.push({
+          sourceId: `${filePath}::${name}`,
+          filePath,
+          targetName: extendsClass,
+          edgeType: 'extends',
+          targetType: 'class',
+        });
+      }
+      for (const interfaceName of implementsNames) {
+        this.pendingHeritage.push({
+          sourceId: `${filePath}::${name}`,
+          filePath,
+          targetName: interfaceName,
+          edgeType: 'implements',
+          targetType: 'interface',
+        });
+      }
+      // Decorated classes are built by a DI container: injected types are dependencies
+      if (decorators.length > 0) {
+        for (const dependency of getInjectedDependencies(sourceFile, statement)) {
+          this.pendingHeritage.push({
+            sourceId: `${filePath}::${name}`,
+            filePath,
+            targetName: dependency,
+            edgeType: 'depends_on',
+            targetType: 'class',
+          });
+        }
+      }
+
+      this.extractMethods(sourceFile, statement, lines, filePath);
+    }
+  }
+
+  private extractMethods(
+    sourceFile: ts.SourceFile,
+    classDecl: ts.ClassDeclaration,
+    lines: string[],
+    filePath: string
+  ): void {
+    const className = classDecl.name!.text;
+    const classId = `${filePath}::${className}`;
+    const methods: LocalNode[] = [];
+
+    for (const member of classDecl.members) {
+      // Regular methods plus arrow/function-valued properties (`handle = () => {}`)
+      let fn: ts.FunctionLikeDeclaration | undefined;
+      if (ts.isMethodDeclaration(member) && member.body) {
+        fn = member;
+      } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+        fn = unwrapFunction(member.initializer);
+      }
+      if (!fn || !member.name) continue;
+      if (!ts.isIdentifier(member.name) && !ts.isPrivateIdentifier(member.name)) continue;
+
+      const name = member.name.text;
+      const stableId = `${classId}.${name}`;
+      const isStatic = hasModifier(member, ts.SyntaxKind.StaticKeyword);
+      const visibility =
+        ts.isPrivateIdentifier(member.name) || hasModifier(member, ts.SyntaxKind.PrivateKeyword)
+          ? 'private'
+          : hasModifier(member, ts.SyntaxKind.ProtectedKeyword)
+            ? 'protected'
+            : 'public';
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, member);
+
+      this.log(`    Method: ${className}.${name}${isStatic ? ' (static)' : ''} @ ${filePath}:${startLine}`);
+      this.stats.methodsFound++;
+
+      const node: LocalNode = {
+        stable_id: stableId,
+        name,
+        qualified_name: stableId,
+        node_type: 'method',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, member, fn.body?.getStart(sourceFile)),
+        metadata: {
+          class: className,
+          visibility,
+          static: isStatic,
+          async: hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+        },
+      };
+      this.addNode(node);
+      methods.push(node);
+
+      this.edges.push({
+        source_stable_id: classId,
+        target_stable_id: stableId,
+        edge_type: 'defines',
+      });
+    }
+
+    this.classMethods.set(classId, methods);
+  }
+
+  // ----------- Exported functions -----------
+
+  /**
+   * Exported functions, skipping short accessors like `getX` / `isY`; with a
+   * wider granularity every top-level function, marked `private` when unexported.
+   */
+  private extractExportedFunctions(
+    sourceFile: ts.SourceFile,
+    functions: TopLevelFunction[],
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>
+  ): void {
+    const exportedOnly = this.granularity === 'exported-only';
+    for (const { name, declaration, fn } of functions) {
+      const isExported = exportedNames.has(name);
+      if (exportedOnly ? !/^[a-z]/.test(name) || !isExported : !/^[a-z_$]/i.test(name)) continue;
+      if (name.startsWith('use')) continue;
+      if (
+        exportedOnly &&
+        ['get', 'set', 'is', 'has', 'can', 'should', 'will', 'did'].some(
+          (p) => name.startsWith(p) && name.length < 8
+        )
+      ) {
+        this.stats.skippedFunctions++;
+        continue;
+      }
+      if (containsJsx(fn)) continue;
+      // Already modeled, e.g. as a server action
+      if (this.nodes.has(`${filePath}::${name}`)) continue;
+
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, declaration);
+
+      this.log(`  Function: ${name} @ ${filePath}:${startLine}`);
+      this.stats.exportedFunctionsFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: 'function',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, declaration, fn.body?.getStart(sourceFile)),
+        metadata: { exported: isExported, ...(isExported ? {} : { private: true }) },
+      });
+    }
+  }
+
+  /**
+   * Named functions declared inside functions and methods that are nodes
+   * (`function helper() {}`, `const format = () => ...`), nested to any depth,
+   * with a `defines` edge from the enclosing function: `file::outer.helper`.
+   */
+  private extractNestedFunctions(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const visit = (node: ts.Node, parentId: string | undefined): void => {
+      const named = getNamedFunction(node);
+      if (named && parentId) {
+        const stableId = `${parentId}.${named.name}`;
+        const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, named.declaration);
+        this.log(`    Nested function: ${stableId.slice(filePath.length + 2)} @ ${filePath}:${startLine}`);
+        this.stats.nestedFunctionsFound++;
+        this.addNode({
+          stable_id: stableId,
+          name: named.name,
+          qualified_name: stableId,
+          node_type: 'function',
+          language: 'typescript',
+          file_path: filePath,
+          start_line: startLine,
+          start_column: startColumn,
+          end_line: endLine,
+          end_column: endColumn,
+          snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+          signature: this.getSignature(sourceFile, named.declaration, named.fn.body?.getStart(sourceFile)),
+          metadata: { exported: false, private: true, nested: true, parent: parentId },
+        });
+        this.edges.push({ source_stable_id: parentId, target_stable_id: stableId, edge_type: 'defines' });
+        if (named.fn.body) visit(named.fn.body, stableId);
+        return;
+      }
+
+      // Top-level functions and class methods that became nodes are the outermost parents
+      if (node.parent === sourceFile && named) {
+        const id = `${filePath}::${named.name}`;
+        if (named.fn.body) visit(named.fn.body, this.nodes.has(id) ? id : undefined);
+        return;
+      }
+      if (ts.isClassDeclaration(node) && node.name && node.parent === sourceFile) {
+        for (const member of node.members) {
+          const method = getNamedFunction(member);
+          const id = method && `${filePath}::${node.name.text}.${method.name}`;
+          if (method?.fn.body && id && this.nodes.has(id)) visit(method.fn.body, id);
+        }
+        return;
+      }
+      ts.forEachChild(node, (child) => visit(child, parentId));
+    };
+    ts.forEachChild(sourceFile, (child) => visit(child, undefined));
+  }
+
+  // ----------- Types, interfaces and enums -----------
+
+  private extractTypes(
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>
+  ): void {
+    for (const statement of sourceFile.statements) {
+      let nodeType: NodeType;
+      let kind: string;
+      let bodyStart: number | undefined;
+      if (ts.isInterfaceDeclaration(statement)) {
+        nodeType = 'interface';
+        kind = 'interface';
+        bodyStart = getOpenBraceStart(sourceFile, statement);
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        nodeType = 'type';
+        kind = 'type';
+        bodyStart = statement.type.getStart(sourceFile);
+      } else if (ts.isEnumDeclaration(statement)) {
+        nodeType = 'type';
+        kind = 'enum';
+        bodyStart = getOpenBraceStart(sourceFile, statement);
+      } else {
+        continue;
+      }
+
+      const name = statement.name.text;
+      if (!exportedNames.has(name)) continue;
+
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, statement);
+
+      this.log(`  ${kind.charAt(0).toUpperCase() + kind.slice(1)}: ${name} @ ${filePath}:${startLine}`);
+      this.stats.typesFound++;
+
+      this.addNode({
+        stable_id: `${filePath}::${name}`,
+        name,
+        qualified_name: `${filePath}::${name}`,
+        node_type: nodeType,
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, statement, bodyStart),
+        metadata: { kind, exported: true },
+      });
+
+      if (ts.isInterfaceDeclaration(statement)) {
+        for (const baseName of getHeritageNames(sourceFile, statement, ts.SyntaxKind.ExtendsKeyword)) {
+          this.pendingHeritage.push({
+            sourceId: `${filePath}::${name}`,
+            filePath,
+            targetName: baseName,
+            edgeType: 'extends',
+            targetType: 'interface',
+          });
+        }
+      }
+    }
+  }
+
+  // ----------- Constants -----------
+
+  private extractConstants(
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>
+  ): void {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      if (!(statement.declarationList.flags & ts.NodeFlags.Const)) continue;
 
-        const startLine = text.substring(0, match.index).split('\n').length;
-        const endLine = this.findBlockEnd(lines, startLine - 1);
+      const declarations = statement.declarationList.declarations;
+      for (const decl of declarations) {
+        if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+        if (!ts.isObjectLiteralExpression(unwrapExpression(decl.initializer))) continue;
 
-        this.log(`  Hook: ${name} @ ${filePath}:${startLine}`);
-        this.stats.hooksFound++;
+        const name = decl.name.text;
+        if (!exportedNames.has(name)) continue;
+
+        const declaration = declarations.length === 1 ? statement : decl;
+        const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, declaration);
+
+        this.log(`  Constant: ${name} @ ${filePath}:${startLine}`);
+        this.stats.constantsFound++;
 
         this.addNode({
           stable_id: `${filePath}::${name}`,
           name,
           qualified_name: `${filePath}::${name}`,
-          node_type: 'hook',
+          node_type: 'constant',
           language: 'typescript',
           file_path: filePath,
           start_line: startLine,
+          start_column: startColumn,
           end_line: endLine,
+          end_column: endColumn,
           snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-          signature: match[0].trim(),
-          metadata: { exported: isExported },
+          signature: this.getSignature(sourceFile, declaration, decl.initializer.getStart(sourceFile)),
+          metadata: { exported: true },
         });
       }
     }
   }
 
-  // ----------- API Endpoints -----------
+  // ----------- State stores -----------
 
-  private extractEndpoints(text: string, lines: string[], filePath: string): void {
-    const routePatterns = [
-      /(?:app|router)\.(get|post|put|patch|delete|all)\s*\(\s*['"`]([^'"`]+)['"`]/g,
-      /export\s+(?:async\s+)?function\s+(GET|POST|PUT|PATCH|DELETE)\s*\(/g,
-    ];
+  /**
+   * Shared state declared at the top level: Redux Toolkit slices and stores,
+   * Zustand stores, Jotai atoms and React contexts. They become `variable` nodes
+   * with the library in `metadata.state`.
+   */
+  private extractStores(
+    sourceFile: ts.SourceFile,
+    lines: string[],
+    filePath: string,
+    exportedNames: Set<string>
+  ): void {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+
+      const declarations = statement.declarationList.declarations;
+      for (const decl of declarations) {
+        if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+        const initializer = unwrapExpression(decl.initializer);
+        const store = ts.isCallExpression(initializer) ? getStoreDefinition(sourceFile, initializer) : undefined;
+        if (!store) continue;
 
-    for (const pattern of routePatterns) {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const method = match[1].toUpperCase();
-        const route =
-          match[2] || filePath.replace(/.*\/api/, '/api').replace(/\.\w+$/, '');
-        const name = `${method} ${route}`;
-        const startLine = text.substring(0, match.index).split('\n').length;
-        const endLine = this.findBlockEnd(lines, startLine - 1);
+        const name = decl.name.text;
+        const declaration = declarations.length === 1 ? statement : decl;
+        const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, declaration);
 
-        this.log(`  Endpoint: ${name} @ ${filePath}:${startLine}`);
-        this.stats.endpointsFound++;
+        this.log(`  State ${store.kind}: ${name} (${store.library}) @ ${filePath}:${startLine}`);
+        this.stats.storesFound++;
 
         this.addNode({
           stable_id: `${filePath}::${name}`,
           name,
           qualified_name: `${filePath}::${name}`,
-          node_type: 'endpoint',
+          node_type: 'variable',
           language: 'typescript',
           file_path: filePath,
           start_line: startLine,
+          start_column: startColumn,
           end_line: endLine,
+          end_column: endColumn,
           snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-          signature: match[0].trim(),
-          metadata: { method, route },
+          signature: this.getSignature(sourceFile, declaration, decl.initializer.getStart(sourceFile)),
+          metadata: {
+            state: store.library,
+            kind: store.kind,
+            ...(store.sliceName ? { sliceName: store.sliceName } : {}),
+            ...(store.actions.length > 0 ? { actions: store.actions } : {}),
+            exported: exportedNames.has(name),
+          },
         });
       }
     }
   }
 
-  // ----------- Classes -----------
+  /**
+   * `uses` edges from components, hooks and functions to the state they read or
+   * write (see `findStateUses`), with `read` / `write` in metadata. Redux
+   * selectors and action creators resolve to the slice of the module they are
+   * imported from.
+   */
+  private analyzeStateEdges(): void {
+    const stores = Array.from(this.nodes.values()).filter((n) => n.metadata?.state);
+    if (stores.length === 0) return;
+    const slices = stores.filter((n) => n.metadata?.kind === 'slice');
+
+    for (const node of Array.from(this.nodes.values())) {
+      if (!STATE_SOURCE_TYPES.includes(node.node_type) || node.language === 'python') continue;
+
+      const text = this.readFile(node.file_path);
+      const sourceFile = this.parseFile(node.file_path, text);
+      const bindings = this.getImportBindings(node.file_path, sourceFile);
+      const nodeCode =
+        node.language === 'vue' || node.language === 'svelte'
+          ? text
+          : text.split('\n').slice(node.start_line - 1, node.end_line).join('\n');
+
+      const access = new Map<LocalNode, { read?: true; write?: true }>();
+      const mark = (store: LocalNode | undefined, mode: 'read' | 'write') => {
+        if (!store || store === node) return;
+        access.set(store, { ...access.get(store), [mode]: true });
+      };
+      const resolveStore = (localName: string, library?: string) => {
+        const target = bindings.get(localName)?.node ?? this.findFileNode(node.file_path, localName);
+        return target?.metadata?.state && (!library || target.metadata.state === library) ? target : undefined;
+      };
+      // Slices of a module an identifier is imported from (`increment`, `selectCount`)
+      const slicesFrom = (localName: string, action?: string) => {
+        const specifier = getImportSpecifier(sourceFile, localName);
+        const file = specifier ? this.resolver.resolve(node.file_path, specifier) : node.file_path;
+        const inFile = slices.filter((slice) => slice.file_path === file);
+        const byAction = inFile.filter((slice) => (slice.metadata?.actions as string[] | undefined)?.includes(action ?? ''));
+        return byAction.length > 0 ? byAction : inFile.length === 1 ? inFile : [];
+      };
+
+      // Zustand stores in scope, by local name, with their actions
+      const zustandStores = new Map<string, string[]>();
+      const zustandNames = [
+        ...Array.from(bindings.entries())
+          .filter(([, binding]) => binding.node?.metadata?.state === 'zustand')
+          .map(([localName]) => localName),
+        ...(this.nodesByFile.get(node.file_path) ?? [])
+          .filter((n) => n.metadata?.state === 'zustand')
+          .map((n) => n.name),
+      ];
+      for (const localName of zustandNames) {
+        const store = resolveStore(localName, 'zustand')!;
+        zustandStores.set(localName, (store.metadata?.actions as string[] | undefined) ?? []);
+      }
 
-  private extractClasses(
-    text: string,
-    lines: string[],
-    filePath: string,
-    exportedNames: Set<string>
-  ): void {
-    const classPattern =
-      /(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s+extends\s+(\w+))?/g;
-    let match;
-    while ((match = classPattern.exec(text)) !== null) {
-      const name = match[1];
-      const extendsClass = match[2];
-      const isExported = exportedNames.has(name);
-      if (!isExported) {
-        this.stats.skippedFunctions++;
-        continue;
+      for (const use of findStateUses(nodeCode, zustandStores)) {
+        if (use.sliceName) {
+          mark(slices.find((slice) => slice.metadata?.sliceName === use.sliceName), use.mode);
+        } else if (use.library !== 'redux') {
+          mark(resolveStore(use.name!, use.library), use.mode);
+        } else if (use.mode === 'read') {
+          slicesFrom(use.name!).forEach((slice) => mark(slice, 'read'));
+        } else {
+          const slice = resolveStore(use.name!, 'redux');
+          if (slice?.metadata?.kind === 'slice') {
+            mark(slice, 'write');
+          } else {
+            slicesFrom(use.name!, use.action).forEach((s) => mark(s, 'write'));
+          }
+        }
       }
 
-      const startLine = text.substring(0, match.index).split('\n').length;
-      const endLine = this.findBlockEnd(lines, startLine - 1);
+      for (const [store, mode] of access) {
+        this.log(`${node.stable_id} ${[mode.read && 'reads', mode.write && 'writes'].filter(Boolean).join('/')} ${store.stable_id}`);
+        this.edges.push({
+          source_stable_id: node.stable_id,
+          target_stable_id: store.stable_id,
+          edge_type: 'uses',
+          metadata: { state: store.metadata!.state, ...mode },
+        });
+      }
+    }
+  }
 
-      this.log(
-        `  Class: ${name}${extendsClass ? ` extends ${extendsClass}` : ''} @ ${filePath}:${startLine}`
-      );
-      this.stats.classesFound++;
+  // ----------- Config keys -----------
+
+  private extractConfigReads(sourceFile: ts.SourceFile, filePath: string): void {
+    findConfigReads(sourceFile, filePath).forEach((read) => this.recordConfigRead(read));
+  }
+
+  private recordConfigRead(read: ConfigRead): void {
+    const id = `config::${read.kind}::${read.key}`;
+    this.configReads.set(id, [...(this.configReads.get(id) ?? []), read]);
+  }
+
+  /** Keys declared in `.env.example`-style files and VS Code `contributes.configuration` */
+  private async loadConfigDeclarations(): Promise<void> {
+    const files = await fg(['**/.env.{example,sample,template}', '**/package.json'], {
+      cwd: this.rootPath,
+      ignore: IGNORED_DIRECTORIES,
+      dot: true,
+    });
+
+    for (const file of files.sort()) {
+      try {
+        for (const declaration of parseConfigDeclarations(file, this.readFile(file))) {
+          const id = `config::${declaration.kind}::${declaration.key}`;
+          this.configDeclarations.set(id, [...(this.configDeclarations.get(id) ?? []), declaration]);
+        }
+      } catch (error) {
+        this.log(`  Could not read config declarations from ${file}: ${error}`);
+      }
+    }
+  }
 
+  /**
+   * One `variable` node per config key with `references` edges from the nodes
+   * that read it. Keys read but missing from the declarations (when the project
+   * has any of that kind) get `metadata.undeclared`; declared keys nobody reads
+   * get `metadata.unused`.
+   */
+  private analyzeConfigEdges(): void {
+    const declaredKinds = new Set(Array.from(this.configDeclarations.values(), (d) => d[0].kind));
+    const ids = new Set([...this.configReads.keys(), ...this.configDeclarations.keys()]);
+    const problems: string[] = [];
+
+    for (const id of Array.from(ids).sort()) {
+      const reads = this.configReads.get(id) ?? [];
+      const declarations = this.configDeclarations.get(id) ?? [];
+      const { kind, key } = reads[0] ?? declarations[0];
+      const declaration = declarations[0];
+      const declaredLines = declaration ? this.readFile(declaration.filePath).split('\n') : [];
+      const { startColumn, endColumn } = this.getLineColumns(declaredLines, declaration?.line ?? 0, declaration?.line ?? 0);
+      const undeclared =
+        reads.length > 0 && declarations.length === 0 && declaredKinds.has(kind) && !UNDECLARED_ENV_OK.includes(key);
+      const unused = reads.length === 0;
+      if (undeclared) problems.push(`${key} is read but not declared`);
+      if (unused) problems.push(`${key} is declared in ${declaration.filePath} but never read`);
+
+      this.stats.configKeysFound++;
       this.addNode({
-        stable_id: `${filePath}::${name}`,
-        name,
-        qualified_name: `${filePath}::${name}`,
-        node_type: 'class',
-        language: 'typescript',
-        file_path: filePath,
-        start_line: startLine,
-        end_line: endLine,
-        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-        signature: match[0].trim(),
-        metadata: { extends: extendsClass, exported: isExported },
+        stable_id: id,
+        name: key,
+        qualified_name: reads[0]?.source ? `${reads[0].source}.${key}` : key,
+        node_type: 'variable',
+        file_path: declaration?.filePath ?? '',
+        start_line: declaration?.line ?? 0,
+        start_column: startColumn,
+        end_line: declaration?.line ?? 0,
+        end_column: endColumn,
+        ...(declaration ? { snippet: declaredLines[declaration.line - 1] } : {}),
+        metadata: {
+          config: kind,
+          ...(declarations.length > 0 ? { declaredIn: declarations.map((d) => d.filePath) } : {}),
+          reads: reads.length,
+          ...(undeclared ? { undeclared: true } : {}),
+          ...(unused ? { unused: true } : {}),
+        },
       });
 
-      if (extendsClass) {
+      const linked = new Set<string>();
+      for (const read of reads) {
+        const reader = this.findEnclosingNode(read.filePath, read.line);
+        if (!reader || linked.has(reader.stable_id)) continue;
+        linked.add(reader.stable_id);
         this.edges.push({
-          source_stable_id: `${filePath}::${name}`,
-          target_stable_id: extendsClass,
-          edge_type: 'extends',
+          source_stable_id: reader.stable_id,
+          target_stable_id: id,
+          edge_type: 'references',
+          metadata: { config: kind },
         });
       }
     }
+
+    if (problems.length > 0) {
+      this.log(`Config key issues (${problems.length}):`);
+      for (const problem of problems) this.log(`  ${problem}`);
+    }
   }
 
-  // ----------- Exported functions -----------
+  // ----------- Database tables -----------
+
+  /** Drizzle `pgTable()` / `mysqlTable()` / `sqliteTable()` declarations */
+  private extractDrizzleTables(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    for (const { statement, ...table } of findDrizzleTables(sourceFile)) {
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, statement);
+      this.declareTable({
+        ...table,
+        schema: 'drizzle',
+        filePath,
+        startLine,
+        startColumn,
+        endLine,
+        endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+      });
+    }
+  }
 
-  private extractExportedFunctions(
-    text: string,
-    lines: string[],
-    filePath: string,
-    exportedNames: Set<string>
-  ): void {
-    const patterns = [
-      /export\s+(?:async\s+)?function\s+([a-z]\w*)\s*\(/g,
-      /export\s+const\s+([a-z]\w*)\s*=\s*(?:async\s+)?\([^)]*\)\s*=>/g,
-    ];
+  /** Prisma models from `*.prisma` and `CREATE TABLE` statements from `*.sql` migrations */
+  private async loadSchemaFiles(): Promise<void> {
+    const files = await fg(['**/*.prisma', '**/*.sql'], {
+      cwd: this.rootPath,
+      ignore: IGNORED_DIRECTORIES,
+    });
 
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        const name = match[1];
-        if (name.startsWith('use')) continue;
-        if (
-          ['get', 'set', 'is', 'has', 'can', 'should', 'will', 'did'].some(
-            (p) => name.startsWith(p) && name.length < 8
-          )
-        ) {
-          this.stats.skippedFunctions++;
-          continue;
+    for (const file of files.sort()) {
+      try {
+        const text = this.readFile(file);
+        const lines = text.split('\n');
+        const schema = file.endsWith('.prisma') ? 'prisma' : 'sql';
+        for (const table of schema === 'prisma' ? parsePrismaModels(text) : parseSqlTables(text)) {
+          this.declareTable({
+            ...table,
+            schema,
+            filePath: file,
+            snippet: lines.slice(table.startLine - 1, Math.min(table.startLine + 29, table.endLine)).join('\n'),
+          });
+        }
+      } catch (error) {
+        this.log(`  Could not read database schema ${file}: ${error}`);
+      }
+    }
+  }
+
+  private declareTable(table: TableDefinition): void {
+    const id = `table::${table.name}`;
+    this.log(`  Table (${table.schema}): ${table.name} @ ${table.filePath}:${table.startLine}`);
+    this.tableDefinitions.set(id, [...(this.tableDefinitions.get(id) ?? []), table]);
+  }
+
+  /**
+   * One `other` node per database table (`metadata.database` names the schema
+   * that declares it first) and `uses` edges from the code that queries it (see
+   * `findTableQueries`), with `read` / `write` in metadata. Tables only Supabase
+   * mentions get a node without a file.
+   */
+  private analyzeDatabaseEdges(): void {
+    const definitions = Array.from(this.tableDefinitions.entries());
+    const prismaTables = new Map(
+      definitions.flatMap(([id, tables]) =>
+        tables.flatMap((t) => (t.model ? [[t.model[0].toLowerCase() + t.model.slice(1), id] as const] : []))
+      )
+    );
+    const drizzleTables = definitions.flatMap(([id, tables]) =>
+      tables.filter((t) => t.schema === 'drizzle').map((t) => ({ id, file: t.filePath, variable: t.variable! }))
+    );
+    const supabaseTables = new Set<string>();
+    const access = new Map<string, { source: string; target: string; database: string; read?: true; write?: true }>();
+
+    for (const [filePath, sourceFile] of this.sourceFiles) {
+      const findDrizzleTable = (expression: ts.Expression): string | undefined => {
+        const target = unwrapExpression(expression);
+        let file: string | undefined = filePath;
+        let variable: string;
+        if (ts.isIdentifier(target)) {
+          const specifier = getImportSpecifier(sourceFile, target.text);
+          if (specifier) file = this.resolver.resolve(filePath, specifier);
+          variable = specifier ? (getImportedName(sourceFile, target.text) ?? target.text) : target.text;
+        } else if (ts.isPropertyAccessExpression(target) && ts.isIdentifier(target.expression)) {
+          file = this.getImportBindings(filePath, sourceFile).get(target.expression.text)?.namespace;
+          variable = target.name.text;
+        } else {
+          return undefined;
+        }
+        const inFile = drizzleTables.find((t) => t.file === file && t.variable === variable);
+        // Re-exported through a barrel: fall back to a unique table variable name
+        const byName = drizzleTables.filter((t) => t.variable === variable);
+        return inFile?.id ?? (byName.length === 1 ? byName[0].id : undefined);
+      };
+      const mark = (node: ts.Node, target: string | undefined, database: string, mode: 'read' | 'write') => {
+        if (!target) return;
+        const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+        const source = this.findEnclosingNode(filePath, line);
+        if (!source) return;
+        const key = `${source.stable_id}->${target}`;
+        access.set(key, { source: source.stable_id, target, database, ...access.get(key), [mode]: true });
+      };
+
+      for (const { database, mode, node, name, table } of findTableQueries(sourceFile)) {
+        if (database === 'prisma') {
+          mark(node, prismaTables.get(name!), database, mode);
+        } else if (database === 'drizzle' && table) {
+          mark(node, findDrizzleTable(table), database, mode);
+        } else if (database === 'drizzle') {
+          const byName = drizzleTables.filter((t) => t.variable === name);
+          mark(node, byName.length === 1 ? byName[0].id : undefined, database, mode);
+        } else {
+          supabaseTables.add(`table::${name}`);
+          mark(node, `table::${name}`, database, mode);
         }
+      }
+    }
 
-        const startLine = text.substring(0, match.index).split('\n').length;
-        const endLine = this.findBlockEnd(lines, startLine - 1);
-        const functionBody = lines.slice(startLine - 1, endLine).join('\n');
-        if (this.containsJSX(functionBody)) continue;
+    for (const id of Array.from(new Set([...this.tableDefinitions.keys(), ...supabaseTables])).sort()) {
+      const tables = this.tableDefinitions.get(id) ?? [];
+      const table = tables[0];
+      const columns = Array.from(new Set(tables.flatMap((t) => t.columns)));
+      this.stats.tablesFound++;
+      this.addNode({
+        stable_id: id,
+        name: id.slice('table::'.length),
+        qualified_name: id.slice('table::'.length),
+        node_type: 'other',
+        ...(table ? { language: table.schema === 'drizzle' ? 'typescript' : table.schema } : {}),
+        file_path: table?.filePath ?? '',
+        start_line: table?.startLine ?? 0,
+        start_column: table?.startColumn ?? 0,
+        end_line: table?.endLine ?? 0,
+        end_column: table?.endColumn ?? 0,
+        ...(table ? { snippet: table.snippet } : {}),
+        metadata: {
+          database: table?.schema ?? 'supabase',
+          ...(table?.model ? { model: table.model } : {}),
+          ...(columns.length > 0 ? { columns } : {}),
+          ...(tables.length > 0 ? { declaredIn: Array.from(new Set(tables.map((t) => t.filePath))) } : {}),
+        },
+      });
+    }
 
-        this.log(`  Function: ${name} @ ${filePath}:${startLine}`);
-        this.stats.exportedFunctionsFound++;
+    for (const { source, target, database, read, write } of access.values()) {
+      this.log(`${source} ${[read && 'reads', write && 'writes'].filter(Boolean).join('/')} ${target}`);
+      this.edges.push({
+        source_stable_id: source,
+        target_stable_id: target,
+        edge_type: 'uses',
+        metadata: { database, ...(read ? { read } : {}), ...(write ? { write } : {}) },
+      });
+    }
+  }
 
-        this.addNode({
-          stable_id: `${filePath}::${name}`,
-          name,
-          qualified_name: `${filePath}::${name}`,
-          node_type: 'function',
-          language: 'typescript',
-          file_path: filePath,
-          start_line: startLine,
-          end_line: endLine,
-          snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
-          signature: match[0].trim(),
-          metadata: { exported: true },
+  // ----------- Events and messages -----------
+
+  /**
+   * Channel nodes (`other`, with the kind in `metadata.channel`) keyed by event
+   * name, with `uses` edges marked `publishes` from senders and `subscribes`
+   * from handlers; see `findChannelUses` for the calls each kind covers.
+   * Events and messages nobody in the project sends (`'data'`, `'error'`) are
+   * runtime events and skipped; queues may be fed by other services and are kept.
+   */
+  private analyzeEventEdges(): void {
+    const channels = new Map<string, { kind: string; name: string; publishers: Set<string>; subscribers: Set<string> }>();
+    const uses: [string, ChannelUse[]][] = [
+      ...Array.from(this.sourceFiles, ([filePath, sourceFile]): [string, ChannelUse[]] => [filePath, findChannelUses(sourceFile)]),
+      ...Array.from(this.pythonModules.keys(), (filePath): [string, ChannelUse[]] => [
+        filePath,
+        findPythonChannelUses(this.readFile(filePath)),
+      ]),
+    ];
+
+    for (const [filePath, fileUses] of uses) {
+      for (const { kind, name, role, line } of fileUses) {
+        const node = this.findEnclosingNode(filePath, line);
+        if (!node) continue;
+        const id = `channel::${kind}::${name}`;
+        if (!channels.has(id)) channels.set(id, { kind, name, publishers: new Set(), subscribers: new Set() });
+        channels.get(id)![role].add(node.stable_id);
+      }
+    }
+
+    for (const [id, { kind, name, publishers, subscribers }] of Array.from(channels).sort(([a], [b]) => a.localeCompare(b))) {
+      if (publishers.size === 0 && kind !== 'queue') continue;
+      this.stats.channelsFound++;
+      this.log(`  Channel (${kind}): ${name}, ${publishers.size} publisher(s), ${subscribers.size} subscriber(s)`);
+      this.addNode({
+        stable_id: id,
+        name,
+        qualified_name: `${kind}:${name}`,
+        node_type: 'other',
+        file_path: '',
+        start_line: 0,
+        start_column: 0,
+        end_line: 0,
+        end_column: 0,
+        metadata: { channel: kind },
+      });
+
+      for (const source of new Set([...publishers, ...subscribers])) {
+        this.edges.push({
+          source_stable_id: source,
+          target_stable_id: id,
+          edge_type: 'uses',
+          metadata: {
+            channel: kind,
+            ...(publishers.has(source) ? { publishes: true } : {}),
+            ...(subscribers.has(source) ? { subscribes: true } : {}),
+          },
         });
       }
     }
   }
 
-  // ----------- Utility methods -----------
+  // ----------- Background jobs -----------
+
+  /**
+   * Code that runs outside a request becomes `handler` nodes with the library in
+   * `metadata.job` (see `findJobs`). Queues are remembered by `file::holder` so
+   * producers calling `queue.add()` can be linked to the workers.
+   */
+  private extractJobs(sourceFile: ts.SourceFile, lines: string[], filePath: string): void {
+    const { jobs, queues } = findJobs(sourceFile);
+    for (const { holder, queue } of queues) this.jobQueues.set(`${filePath}::${holder}`, queue);
+
+    for (const { name, node, metadata, processor } of jobs) {
+      const { startLine, startColumn, endLine, endColumn } = this.getLineRange(sourceFile, node);
+      const stableId = `${filePath}::${name}`;
+      const fn = processor && unwrapFunction(processor);
+      this.log(`  Job: ${name} @ ${filePath}:${startLine}`);
+      this.stats.jobsFound++;
+      this.addNode({
+        stable_id: stableId,
+        name,
+        qualified_name: stableId,
+        node_type: 'handler',
+        language: 'typescript',
+        file_path: filePath,
+        start_line: startLine,
+        start_column: startColumn,
+        end_line: endLine,
+        end_column: endColumn,
+        snippet: lines.slice(startLine - 1, Math.min(startLine + 29, endLine)).join('\n'),
+        signature: this.getSignature(sourceFile, node, fn?.body?.getStart(sourceFile)),
+        metadata,
+      });
+      if (processor && !fn) {
+        const target = unwrapExpression(processor);
+        if (ts.isIdentifier(target)) this.jobProcessors.push({ jobId: stableId, filePath, processor: target.text });
+      }
+    }
+  }
 
-  private containsJSX(text: string): boolean {
-    return (
-      /<[A-Z]\w*[\s/>]/.test(text) ||
-      (/<[a-z]+[\s/>]/.test(text) && /<\/[a-z]+>/.test(text))
-    );
+  /** `crons` in `vercel.json`: each path is requested on its schedule */
+  private async loadVercelCrons(): Promise<void> {
+    const files = await fg(['**/vercel.json'], {
+      cwd: this.rootPath,
+      ignore: IGNORED_DIRECTORIES,
+    });
+
+    for (const file of files.sort()) {
+      try {
+        const text = this.readFile(file);
+        const lines = text.split('\n');
+        for (const cron of parseVercelCrons(text)) {
+          const name = `cron ${cron.path}`;
+          const { line } = cron;
+          const { startColumn, endColumn } = this.getLineColumns(lines, line, line);
+          this.log(`  Job: ${name} @ ${file}:${line}`);
+          this.stats.jobsFound++;
+          this.addNode({
+            stable_id: `${file}::${name}`,
+            name,
+            qualified_name: `${file}::${name}`,
+            node_type: 'handler',
+            language: 'json',
+            file_path: file,
+            start_line: line,
+            start_column: startColumn,
+            end_line: line,
+            end_column: endColumn,
+            snippet: lines[line - 1]?.trim(),
+            signature: `${cron.schedule} ${cron.path}`,
+            metadata: { job: 'vercel', schedule: cron.schedule, route: cron.path },
+          });
+        }
+      } catch (error) {
+        this.log(`  Could not read crons from ${file}: ${error}`);
+      }
+    }
   }
 
-  private findBlockEnd(lines: string[], startLineIndex: number): number {
-    let parenCount = 0;
-    let foundOpenParen = false;
-    let foundCloseParen = false;
-    let braceCount = 0;
-    let foundBodyStart = false;
-
-    for (let i = startLineIndex; i < lines.length; i++) {
-      const line = lines[i];
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-        if (!foundCloseParen) {
-          if (char === '(') {
-            parenCount++;
-            foundOpenParen = true;
-          } else if (char === ')') {
-            parenCount--;
-            if (foundOpenParen && parenCount === 0) {
-              foundCloseParen = true;
-            }
-          }
+  /**
+   * `calls` edges for work that runs outside a request: producers calling
+   * `queue.add()` / `addBulk()` to the workers of that queue, jobs to their named
+   * processor functions, and Vercel crons to the GET endpoint they request.
+   */
+  private analyzeJobEdges(): void {
+    const jobs = Array.from(this.nodes.values()).filter((n) => n.metadata?.job);
+    if (jobs.length === 0 && this.jobQueues.size === 0) return;
+
+    const addEdge = (source: string, target: string, metadata: Record<string, unknown>) => {
+      if (source === target) return;
+      this.log(`${source} -> ${target} (job)`);
+      this.edges.push({ source_stable_id: source, target_stable_id: target, edge_type: 'calls', metadata });
+    };
+
+    for (const [filePath, sourceFile] of this.sourceFiles) {
+      const findQueue = (target: ts.Expression): string | undefined => {
+        const name = ts.isIdentifier(target)
+          ? target.text
+          : ts.isPropertyAccessExpression(target)
+            ? target.name.text
+            : undefined;
+        if (!name) return undefined;
+        const specifier = ts.isIdentifier(target) ? getImportSpecifier(sourceFile, name) : undefined;
+        const file = specifier ? this.resolver.resolve(filePath, specifier) : filePath;
+        const inFile = this.jobQueues.get(`${file}::${specifier ? (getImportedName(sourceFile, name) ?? name) : name}`);
+        // Re-exported through a barrel: fall back to a unique queue variable name
+        const byName = Array.from(this.jobQueues).filter(([key]) => key.endsWith(`::${name}`));
+        return inFile ?? (byName.length === 1 ? byName[0][1] : undefined);
+      };
+
+      for (const { receiver, line, jobName } of findQueueAdds(sourceFile)) {
+        const queue = findQueue(receiver);
+        const source = queue && this.findEnclosingNode(filePath, line);
+        for (const worker of jobs) {
+          if (!source || worker.metadata?.queue !== queue) continue;
+          if (jobName && worker.metadata?.jobName && worker.metadata.jobName !== jobName) continue;
+          addEdge(source.stable_id, worker.stable_id, { queue, ...(jobName ? { jobName } : {}) });
+        }
+      }
+    }
+
+    for (const { jobId, filePath, processor } of this.jobProcessors) {
+      const sourceFile = this.sourceFiles.get(filePath)!;
+      const target =
+        this.getImportBindings(filePath, sourceFile).get(processor)?.node ?? this.findFileNode(filePath, processor);
+      if (target) addEdge(jobId, target.stable_id, { processor: true });
+    }
+
+    for (const cron of jobs.filter((n) => n.metadata?.job === 'vercel')) {
+      for (const endpoint of this.nodes.values()) {
+        const { method, route } = endpoint.metadata ?? {};
+        if (endpoint.node_type !== 'endpoint' || typeof route !== 'string' || !['GET', 'ALL'].includes(method as string)) {
           continue;
         }
-        if (char === '{') {
-          braceCount++;
-          foundBodyStart = true;
-        } else if (char === '}') {
-          braceCount--;
-          if (foundBodyStart && braceCount === 0) {
-            return i + 1;
-          }
+        if (routeMatches(route, cron.metadata!.route as string)) {
+          addEdge(cron.stable_id, endpoint.stable_id, { schedule: cron.metadata!.schedule });
+        }
+      }
+    }
+  }
+
+  // ----------- Barrels -----------
+
+  /**
+   * Removes barrel modules (files made only of imports and re-exports) from the
+   * graph. Each `imports` edge into a barrel is replaced by edges to the modules
+   * that define the imported names, with the barrel kept in `metadata.via`.
+   */
+  private collapseBarrelModules(): void {
+    const barrels = new Set(
+      Array.from(this.sourceFiles)
+        .filter(
+          ([filePath, sourceFile]) =>
+            (this.reexports.get(filePath) ?? []).some((r) => r.specifier) &&
+            (this.nodesByFile.get(filePath) ?? []).every((n) => n.node_type === 'module') &&
+            sourceFile.statements.every((s) => ts.isImportDeclaration(s) || ts.isExportDeclaration(s))
+        )
+        .map(([filePath]) => filePath)
+    );
+    if (barrels.size === 0) return;
+
+    const kept: LocalEdge[] = [];
+    const replacements = new Map<string, LocalEdge>();
+    for (const edge of this.edges) {
+      const fromBarrel = barrels.has(edge.source_stable_id);
+      const toBarrel = barrels.has(edge.target_stable_id);
+      if (!toBarrel || fromBarrel || edge.edge_type !== 'imports') {
+        if (!fromBarrel && !toBarrel) kept.push(edge);
+        continue;
+      }
+
+      const barrel = edge.target_stable_id;
+      const sourceFile = this.sourceFiles.get(edge.source_stable_id);
+      const names = (edge.metadata?.names as string[] | undefined) ?? [];
+      const definitions = new Map<string, string[]>();
+      for (const localName of names) {
+        const importedName = sourceFile ? getImportedName(sourceFile, localName) : localName;
+        const files = importedName
+          ? [this.resolveExport(barrel, importedName)?.filePath]
+          : // `import * as ui from './components'`: everything the barrel exposes
+            Array.from(this.getExportedNodes(barrel).values(), (n) => n.file_path);
+        for (const file of files) {
+          if (file && !barrels.has(file)) definitions.set(file, [...(definitions.get(file) ?? []), localName]);
         }
       }
+
+      for (const [file, fileNames] of definitions) {
+        const key = `${edge.source_stable_id}->${file}`;
+        const existing =
+          replacements.get(key) ??
+          kept.find((e) => e.edge_type === 'imports' && `${e.source_stable_id}->${e.target_stable_id}` === key);
+        if (existing) {
+          const existingNames = existing.metadata!.names as string[];
+          existingNames.push(...fileNames.filter((n) => !existingNames.includes(n)));
+          continue;
+        }
+        replacements.set(key, {
+          source_stable_id: edge.source_stable_id,
+          target_stable_id: file,
+          edge_type: 'imports',
+          metadata: { ...edge.metadata, names: fileNames, via: barrel },
+        });
+      }
+    }
+
+    this.edges = [...kept, ...replacements.values()];
+    for (const barrel of barrels) {
+      this.nodes.delete(barrel);
+      this.nodesByFile.delete(barrel);
+    }
+    this.log(`Collapsed ${barrels.size} barrel module(s): ${Array.from(barrels).join(', ')}`);
+  }
+
+  /** Innermost node spanning a line, falling back to the file's module node */
+  private findEnclosingNode(filePath: string, line: number): LocalNode | undefined {
+    let found: LocalNode | undefined;
+    for (const node of this.nodesByFile.get(filePath) ?? []) {
+      if (node.node_type === 'module' || node.start_line > line || node.end_line < line) continue;
+      if (!found || node.end_line - node.start_line < found.end_line - found.start_line) found = node;
     }
-    return Math.min(startLineIndex + 50, lines.length);
+    return found ?? this.nodes.get(filePath);
   }
 
+  // ----------- Utility methods -----------
+
   private addNode(node: LocalNode): void {
     if (!this.nodes.has(node.stable_id)) {
-      if (!node.github_link && this.githubInfo) {
+      if (!node.github_link && this.githubInfo && !node.metadata?.external && node.file_path) {
         node.github_link = this.generateGitHubLink(
           node.file_path,
           node.start_line,
@@ -760,6 +3697,368 @@ class CoreAnalyzer {
         );
       }
       this.nodes.set(node.stable_id, node);
+
+      const fileNodes = this.nodesByFile.get(node.file_path);
+      if (fileNodes) {
+        fileNodes.push(node);
+      } else {
+        this.nodesByFile.set(node.file_path, [node]);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Syntax-tree helpers
+// ---------------------------------------------------------------------------
+
+/** Node types a middleware or handler reference may resolve to */
+const ROUTE_STEP_TYPES: NodeType[] = ['function', 'method', 'middleware', 'handler'];
+const GRAPHQL_FILE_PATTERN = /\.(graphql|gql)$/;
+const PYTHON_FILE_PATTERN = /\.py$/;
+/** Single-file components: only their `<script>` blocks are parsed as code */
+const SFC_FILE_PATTERN = /\.(vue|svelte)$/;
+/** Dependencies, build output and virtualenvs, skipped by every file search */
+const IGNORED_DIRECTORIES = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/coverage/**',
+  '**/__pycache__/**',
+  '**/{venv,.venv,site-packages}/**',
+];
+
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[cm]?[jt]sx?$)|(^|\/)__tests__\//;
+const TEST_SUITE_FUNCTIONS = ['describe', 'context', 'suite'];
+const TEST_CASE_FUNCTIONS = ['it', 'test', 'specify'];
+/** Node types reported as tested / untested when test analysis is enabled */
+const TESTABLE_TYPES: NodeType[] = [
+  'component',
+  'hook',
+  'function',
+  'endpoint',
+  'middleware',
+  'handler',
+  'class',
+  'method',
+];
+
+/** Node types that get `references` edges when named in another node's signature or body */
+const REFERENCE_TARGET_TYPES: NodeType[] = ['type', 'interface', 'constant'];
+/** Calls whose `() => import(...)` argument loads a component on demand */
+const LAZY_WRAPPERS = ['lazy', 'dynamic', 'loadable', 'defineAsyncComponent'];
+const STATE_SOURCE_TYPES: NodeType[] = ['component', 'hook', 'function', 'method'];
+/** Node types a same-file `name()` call links to */
+const LOCAL_CALL_TARGET_TYPES: NodeType[] = ['function', 'hook', 'handler', 'middleware'];
+
+const REFERENCE_SOURCE_TYPES: NodeType[] = [
+  'function',
+  'component',
+  'hook',
+  'class',
+  'method',
+  'endpoint',
+  'middleware',
+  'handler',
+];
+
+interface ModuleImport {
+  specifier: string;
+  /** Local names bound by the import, or re-exported names (`*` for `export * from`) */
+  names: string[];
+  reexport: boolean;
+  /** Loaded with `import()`, e.g. `React.lazy(() => import('./Heavy'))` */
+  lazy?: boolean;
+}
+
+/** One name a module re-exports */
+interface ReExport {
+  /** `Bar` in `export { Foo as Bar } from './y'`; `*` for `export * from './x'` */
+  exportName: string;
+  /** Absent when a local declaration is exported under another name */
+  specifier?: string;
+  /** Name in the source module (`*` for `export * as ns`), or the local name */
+  importedName: string;
+}
+
+/** An `import('./mod')` expression and what the surrounding code binds from it */
+interface DynamicImport {
+  specifier: string;
+  line: number;
+  /** Exports taken: `default` for `lazy(() => import(...))`, destructured names, `.then((m) => m.X)` */
+  names: string[];
+  /** Local names bound to those exports; no `exportName` binds the whole module */
+  bindings: { localName: string; exportName?: string }[];
+}
+
+/** A call whose callee is a plain identifier: `helper()` */
+interface LocalCall {
+  name: string;
+  line: number;
+}
+
+interface TrpcProcedures {
+  /** Full dotted route (`user.getUser`) -> procedure endpoints */
+  byRoute: Map<string, LocalNode[]>;
+  /** Global; group 1 is the route a client call (`.user.getUser.useQuery(`) ends with */
+  pattern: RegExp;
+}
+
+interface GraphqlDocument {
+  /** Line the document starts on */
+  line: number;
+  /** `const GET_USER = gql`...`` */
+  constName?: string;
+  operations: GraphqlOperation[];
+}
+
+interface TableDefinition extends SchemaTable {
+  schema: 'prisma' | 'drizzle' | 'sql';
+  filePath: string;
+  /** Variable a Drizzle table is assigned to */
+  variable?: string;
+  snippet: string;
+}
+
+interface PendingHeritage {
+  sourceId: string;
+  filePath: string;
+  /** Base as written, e.g. `Base` or `React.Component` */
+  targetName: string;
+  edgeType: 'extends' | 'implements' | 'depends_on';
+  targetType: NodeType;
+}
+
+/** An Express route's middleware and handler, in the order they run */
+interface PendingRoute {
+  endpointId: string;
+  filePath: string;
+  steps: RouteStep[];
+}
+
+/** What a local import name refers to: a node, or a whole module for `import * as` */
+interface ImportBinding {
+  node?: LocalNode;
+  namespace?: string;
+  /** Bound from a dynamic `import()` */
+  lazy?: true;
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  if (/\.tsx$/.test(filePath)) return ts.ScriptKind.TSX;
+  if (/\.jsx$/.test(filePath)) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function maskOutsideScriptBlocks(text: string): string {
+  const blank = (segment: string) => segment.replace(/[^\n]/g, ' ');
+  const scriptRegex = /(<script[^>]*>)([\s\S]*?)<\/script>/g;
+  let masked = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = scriptRegex.exec(text)) !== null) {
+    const contentStart = match.index + match[1].length;
+    const contentEnd = contentStart + match[2].length;
+    masked += blank(text.slice(cursor, contentStart)) + text.slice(contentStart, contentEnd);
+    cursor = contentEnd;
+  }
+  return masked + blank(text.slice(cursor));
+}
+
+function getHeritageNames(
+  sourceFile: ts.SourceFile,
+  declaration: ts.ClassDeclaration | ts.InterfaceDeclaration,
+  token: ts.SyntaxKind.ExtendsKeyword | ts.SyntaxKind.ImplementsKeyword
+): string[] {
+  const clause = declaration.heritageClauses?.find((c) => c.token === token);
+  return clause ? clause.types.map((type) => type.expression.getText(sourceFile)) : [];
+}
+
+/**
+ * `import('./mod')` expressions with a literal specifier, alone or wrapped:
+ * `lazy(() => import('./Heavy'))` (also `React.lazy`, `next/dynamic`, `loadable`,
+ * Vue's `defineAsyncComponent`), `.then((m) => m.Named)` and `await import(...)`
+ * assigned to a name or destructured.
+ */
+function getDynamicImports(sourceFile: ts.SourceFile): DynamicImport[] {
+  const found: DynamicImport[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      let outer: ts.Node = node;
+      let exportName: string | undefined;
+
+      // `import('./x').then((m) => m.Named)` / `.then((m) => ({ default: m.Named }))`
+      const then = outer.parent;
+      if (ts.isPropertyAccessExpression(then) && then.name.text === 'then' && ts.isCallExpression(then.parent)) {
+        const callback = then.parent.arguments[0];
+        const picked = callback && ts.isArrowFunction(callback) ? unwrapExpression(callback.body as ts.Expression) : undefined;
+        const member =
+          picked && ts.isObjectLiteralExpression(picked)
+            ? picked.properties.find((p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p))?.initializer
+            : picked;
+        if (member && ts.isPropertyAccessExpression(member)) exportName = member.name.text;
+        outer = then.parent;
+      }
+      if (ts.isAwaitExpression(outer.parent)) outer = outer.parent;
+
+      // `lazy(() => import('./Heavy'))` renders the module's default export
+      const arrow = outer.parent;
+      if (ts.isArrowFunction(arrow) && arrow.body === outer && ts.isCallExpression(arrow.parent)) {
+        const wrapper = arrow.parent;
+        const callee = ts.isPropertyAccessExpression(wrapper.expression)
+          ? wrapper.expression.name.text
+          : ts.isIdentifier(wrapper.expression)
+            ? wrapper.expression.text
+            : undefined;
+        if (callee && LAZY_WRAPPERS.includes(callee) && wrapper.arguments[0] === arrow) {
+          exportName ??= 'default';
+          outer = wrapper;
+        }
+      }
+
+      while (ts.isParenthesizedExpression(outer.parent) || ts.isAsExpression(outer.parent)) outer = outer.parent;
+      const declaration = outer.parent;
+      const bindings: DynamicImport['bindings'] = [];
+      if (ts.isVariableDeclaration(declaration) && declaration.initializer === outer) {
+        if (ts.isIdentifier(declaration.name)) {
+          bindings.push({ localName: declaration.name.text, exportName });
+        } else if (ts.isObjectBindingPattern(declaration.name) && exportName === undefined) {
+          for (const element of declaration.name.elements) {
+            const imported = element.propertyName ?? element.name;
+            if (ts.isIdentifier(element.name) && (ts.isIdentifier(imported) || ts.isStringLiteral(imported))) {
+              bindings.push({ localName: element.name.text, exportName: imported.text });
+            }
+          }
+        }
+      }
+
+      found.push({
+        specifier: node.arguments[0].text,
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        names: exportName ? [exportName] : bindings.flatMap((b) => (b.exportName ? [b.exportName] : [])),
+        bindings,
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+/** Calls of plain identifiers anywhere in a file, with their 1-based line */
+function getLocalCalls(sourceFile: ts.SourceFile): LocalCall[] {
+  const calls: LocalCall[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.expression.getStart(sourceFile)).line + 1;
+      calls.push({ name: node.expression.text, line });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return calls;
+}
+
+/**
+ * Re-export table of a module: `export * from`, `export * as ns from`,
+ * `export { a as b } from`, local imports exported again (`import { a } from
+ * './a'; export { a }`, `export default a`) and locally aliased exports.
+ */
+function getReExports(sourceFile: ts.SourceFile): ReExport[] {
+  const reexports: ReExport[] = [];
+  const addLocal = (exportName: string, localName: string) => {
+    const specifier = getImportSpecifier(sourceFile, localName);
+    const importedName = specifier ? getImportedName(sourceFile, localName) : localName;
+    if (specifier && importedName) {
+      reexports.push({ exportName, specifier, importedName });
+    } else if (specifier) {
+      // `import * as ns from './x'; export { ns }`
+      reexports.push({ exportName, specifier, importedName: '*' });
+    } else if (exportName !== localName) {
+      reexports.push({ exportName, importedName: localName });
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+      if (getImportSpecifier(sourceFile, statement.expression.text)) addLocal('default', statement.expression.text);
+      continue;
+    }
+    if (!ts.isExportDeclaration(statement) || statement.isTypeOnly) continue;
+    const clause = statement.exportClause;
+
+    if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const specifier = statement.moduleSpecifier.text;
+      if (!clause) {
+        reexports.push({ exportName: '*', specifier, importedName: '*' });
+      } else if (ts.isNamespaceExport(clause)) {
+        reexports.push({ exportName: clause.name.text, specifier, importedName: '*' });
+      } else {
+        for (const element of clause.elements) {
+          reexports.push({ exportName: element.name.text, specifier, importedName: (element.propertyName ?? element.name).text });
+        }
+      }
+    } else if (clause && ts.isNamedExports(clause)) {
+      for (const element of clause.elements) {
+        addLocal(element.name.text, (element.propertyName ?? element.name).text);
+      }
     }
   }
+  return reexports;
+}
+
+interface TestCall {
+  kind: 'suite' | 'case';
+  title: string;
+  /** `only`, `skip`, `each`, ... */
+  modifier?: string;
+  body?: ts.Node;
+}
+
+/**
+ * Recognizes `describe('x', fn)`, `it.only('x', fn)` and `test.each(table)('x', fn)`.
+ */
+function getTestCall(sourceFile: ts.SourceFile, call: ts.CallExpression): TestCall | undefined {
+  let callee: ts.Expression = call.expression;
+  // `test.each(table)(title, fn)`: the callee is itself a call
+  if (ts.isCallExpression(callee)) callee = callee.expression;
+
+  let modifier: string | undefined;
+  if (ts.isPropertyAccessExpression(callee)) {
+    modifier = callee.name.text;
+    callee = callee.expression;
+  }
+  if (!ts.isIdentifier(callee)) return undefined;
+
+  const kind = TEST_SUITE_FUNCTIONS.includes(callee.text)
+    ? 'suite'
+    : TEST_CASE_FUNCTIONS.includes(callee.text)
+      ? 'case'
+      : undefined;
+  const [titleArg, bodyArg] = call.arguments;
+  if (!kind || !titleArg) return undefined;
+
+  const title = ts.isStringLiteralLike(titleArg) ? titleArg.text : titleArg.getText(sourceFile);
+  return { kind, title, modifier, body: bodyArg };
+}
+
+function containsJsx(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node): void => {
+    if (found) return;
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return found;
 }
@@ -0,0 +1,147 @@
+import * as ts from 'typescript';
+import { getAssignedName, getImportSpecifier, unwrapExpression } from './syntax';
+
+/**
+ * Background jobs: queue workers and cron schedules declared in code, the queues
+ * producers add jobs to, and the crons a `vercel.json` requests.
+ */
+
+export interface FoundJob {
+  name: string;
+  node: ts.Expression;
+  /** `job` (the library) plus `queue` / `jobName` or `schedule` */
+  metadata: Record<string, unknown>;
+  /** Function the job runs, inline or by reference */
+  processor?: ts.Expression;
+}
+
+export interface FoundQueue {
+  /** Variable or property the queue is assigned to */
+  holder: string;
+  queue: string;
+}
+
+/** A `queue.add()` / `queue.addBulk()` call */
+export interface QueueAdd {
+  receiver: ts.Expression;
+  line: number;
+  jobName?: string;
+}
+
+export interface VercelCron {
+  path: string;
+  schedule: string;
+  line: number;
+}
+
+/**
+ * BullMQ `new Worker('queue', processor)` and Bull `queue.process(processor)`
+ * (with `metadata.queue`), `node-cron` `cron.schedule(expression, task)` and
+ * `cron`'s `new CronJob(expression, onTick)` (with `metadata.schedule`), plus the
+ * queues created with `new Queue('name')` so producers can be linked to workers.
+ */
+export function findJobs(sourceFile: ts.SourceFile): { jobs: FoundJob[]; queues: FoundQueue[] } {
+  const importedFrom = (name: string) => getImportSpecifier(sourceFile, name);
+  const jobs: FoundJob[] = [];
+  const queues: FoundQueue[] = [];
+  const bullQueues = new Map<string, string>();
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.arguments) {
+      const callee = node.expression.text;
+      const specifier = importedFrom(callee);
+      const [first, second] = node.arguments;
+      const firstText = first && ts.isStringLiteralLike(first) ? first.text : undefined;
+
+      if (firstText && ((specifier === 'bullmq' && callee === 'Queue') || specifier === 'bull')) {
+        const holder = getAssignedName(node);
+        if (holder) {
+          queues.push({ holder, queue: firstText });
+          if (specifier === 'bull') bullQueues.set(holder, firstText);
+        }
+      } else if (firstText && specifier === 'bullmq' && callee === 'Worker') {
+        const metadata = { job: 'bullmq', queue: firstText };
+        jobs.push({ name: `worker ${firstText}`, node, metadata, processor: second });
+      } else if (firstText && specifier === 'cron' && callee === 'CronJob') {
+        const metadata = { job: 'cron', schedule: firstText };
+        jobs.push({ name: `cron ${firstText}`, node, metadata, processor: second });
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const [first, second] = node.arguments;
+      const isNodeCron = ts.isPropertyAccessExpression(callee)
+        ? callee.name.text === 'schedule' &&
+          ts.isIdentifier(callee.expression) &&
+          importedFrom(callee.expression.text) === 'node-cron'
+        : ts.isIdentifier(callee) && callee.text === 'schedule' && importedFrom('schedule') === 'node-cron';
+      if (isNodeCron && first && ts.isStringLiteralLike(first)) {
+        jobs.push({
+          name: `cron ${first.text}`,
+          node,
+          metadata: { job: 'node-cron', schedule: first.text },
+          processor: second,
+        });
+      }
+
+      // Bull: `queue.process(fn)`, `queue.process('name', fn)`, `queue.process('name', 5, fn)`
+      if (
+        ts.isPropertyAccessExpression(callee) &&
+        callee.name.text === 'process' &&
+        bullQueues.has(callee.expression.getText(sourceFile).replace(/^this\./, ''))
+      ) {
+        const queue = bullQueues.get(callee.expression.getText(sourceFile).replace(/^this\./, ''))!;
+        const jobName = first && ts.isStringLiteralLike(first) ? first.text : undefined;
+        jobs.push({
+          name: `worker ${queue}${jobName ? ` ${jobName}` : ''}`,
+          node,
+          metadata: { job: 'bull', queue, ...(jobName ? { jobName } : {}) },
+          processor: node.arguments[node.arguments.length - 1],
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return { jobs, queues };
+}
+
+/** `queue.add('name', data)` / `queue.addBulk([...])` calls, with the job name when it is a literal */
+export function findQueueAdds(sourceFile: ts.SourceFile): QueueAdd[] {
+  const adds: QueueAdd[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      (node.expression.name.text === 'add' || node.expression.name.text === 'addBulk')
+    ) {
+      const [first] = node.arguments;
+      adds.push({
+        receiver: unwrapExpression(node.expression.expression),
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        ...(first && ts.isStringLiteralLike(first) ? { jobName: first.text } : {}),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return adds;
+}
+
+/** `crons` in a `vercel.json`: each path is requested on its schedule. Throws when the file isn't valid JSON. */
+export function parseVercelCrons(text: string): VercelCron[] {
+  const lines = text.split('\n');
+  const crons: unknown = JSON.parse(text).crons;
+  return (Array.isArray(crons) ? crons : []).flatMap((cron) =>
+    typeof cron?.path === 'string' && typeof cron.schedule === 'string'
+      ? [
+          {
+            path: cron.path,
+            schedule: cron.schedule,
+            line: lines.findIndex((l) => l.includes(JSON.stringify(cron.path))) + 1,
+          },
+        ]
+      : []
+  );
+}
@@ -0,0 +1,100 @@
+import * as ts from 'typescript';
+import { FoundEndpoint, getHandlerReferences, joinRoutes, RouteStep } from './routes';
+import { getCallName, getDecorator, getStringProperty, hasModifier, unwrapExpression } from './syntax';
+
+/**
+ * NestJS: `@Controller()` classes with `@Get()` / `@Post()` routes, the guards,
+ * interceptors and pipes they run, and what the DI container injects.
+ */
+
+const NEST_ROUTE_DECORATORS = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'All', 'Options', 'Head'];
+const NEST_ENHANCERS = [
+  ['UseGuards', 'guard'],
+  ['UseInterceptors', 'interceptor'],
+  ['UsePipes', 'pipe'],
+] as const;
+
+/**
+ * `@Controller('users')` classes with `@Get(':id')` methods: one endpoint per
+ * route method, running the controller's then the method's enhancers before the
+ * method itself.
+ */
+export function findNestEndpoints(sourceFile: ts.SourceFile): FoundEndpoint[] {
+  const found: FoundEndpoint[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+    const controller = getDecorator(statement, 'Controller');
+    if (!controller) continue;
+
+    const className = statement.name.text;
+    const prefix = getDecoratorPath(controller) ?? '';
+    for (const member of statement.members) {
+      if (!ts.isMethodDeclaration(member) || !ts.isIdentifier(member.name)) continue;
+      const routeDecorator = NEST_ROUTE_DECORATORS.map((d) => getDecorator(member, d)).find(Boolean);
+      if (!routeDecorator) continue;
+
+      // Nest runs guards, then interceptors, then pipes; controller-level before method-level
+      const steps: RouteStep[] = [];
+      for (const [decorator, kind] of NEST_ENHANCERS) {
+        for (const [owner, scope] of [
+          [statement, 'controller'],
+          [member, 'route'],
+        ] as const) {
+          for (const arg of getDecorator(owner, decorator)?.arguments ?? []) {
+            for (const name of getHandlerReferences(sourceFile, arg)) {
+              steps.push({ name, role: 'middleware', scope, kind });
+            }
+          }
+        }
+      }
+      steps.push({ name: `${className}.${member.name.text}`, role: 'handler', scope: 'route' });
+
+      found.push({
+        method: getCallName(routeDecorator)!.toUpperCase(),
+        route: joinRoutes(prefix, getDecoratorPath(routeDecorator) ?? ''),
+        node: member,
+        bodyStart: member.body?.getStart(sourceFile),
+        exported: hasModifier(statement, ts.SyntaxKind.ExportKeyword),
+        steps,
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Class names injected into a class: `constructor(private users: UsersService)`
+ * parameters and Angular `private users = inject(UsersService)` fields.
+ */
+export function getInjectedDependencies(sourceFile: ts.SourceFile, classDecl: ts.ClassDeclaration): string[] {
+  const constructor = classDecl.members.find(ts.isConstructorDeclaration);
+  const names: string[] = [];
+  for (const parameter of constructor?.parameters ?? []) {
+    if (parameter.type && ts.isTypeReferenceNode(parameter.type)) {
+      names.push(parameter.type.typeName.getText(sourceFile));
+    }
+  }
+  for (const member of classDecl.members) {
+    const initializer = ts.isPropertyDeclaration(member) && member.initializer && unwrapExpression(member.initializer);
+    if (initializer && ts.isCallExpression(initializer) && getCallName(initializer) === 'inject') {
+      const [token] = initializer.arguments;
+      if (token && (ts.isIdentifier(token) || ts.isPropertyAccessExpression(token))) {
+        names.push(token.getText(sourceFile));
+      }
+    }
+  }
+  return names;
+}
+
+
+/** Path from `@Controller('users')`, `@Controller({ path: 'users' })` or `@Get([':id', 'x'])` */
+function getDecoratorPath(call: ts.CallExpression): string | undefined {
+  const [arg] = call.arguments;
+  if (!arg) return undefined;
+  if (ts.isStringLiteralLike(arg)) return arg.text;
+  if (ts.isArrayLiteralExpression(arg)) {
+    const [first] = arg.elements;
+    return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+  }
+  return ts.isObjectLiteralExpression(arg) ? getStringProperty(arg, 'path') : undefined;
+}
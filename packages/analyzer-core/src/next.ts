@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { FoundEndpoint, toRoutePath } from './routes';
+import { getDefaultExportFunction, getDefaultExportName, getTopLevelFunctions, hasModifier } from './syntax';
+
+/**
+ * Next.js: which route a file serves under the app and pages routers, its route
+ * handlers and API routes, and server actions.
+ */
+
+const NEXT_ROUTE_HANDLERS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.cjs', 'next.config.ts'];
+
+export interface NextRoute {
+  router: 'app' | 'pages';
+  /** `route` is an app-router route handler, `api` a pages-router API route */
+  kind: 'page' | 'layout' | 'route' | 'api';
+  route: string;
+}
+
+/**
+ * URL a file serves under Next.js conventions: app-router `page` / `layout` /
+ * `route` files, or pages-router pages and `pages/api` handlers. Route groups
+ * `(group)` and parallel-route slots `@slot` don't appear in the URL.
+ */
+export function getNextRoute(
+  filePath: string,
+  rootPath: string,
+  projectDirs: Map<string, boolean>
+): NextRoute | undefined {
+  const appMatch = filePath.match(/(?:^|\/)app\/((?:[^/]+\/)*)(page|layout|route)\.[jt]sx?$/);
+  if (appMatch) {
+    const segments = appMatch[1].split('/').filter(Boolean);
+    // `_folder` opts a directory out of routing
+    if (segments.some((segment) => segment.startsWith('_'))) return undefined;
+    return {
+      router: 'app',
+      kind: appMatch[2] as NextRoute['kind'],
+      route: toRoutePath(segments),
+    };
+  }
+
+  // `pages/` is a common folder name elsewhere, so require a Next.js project
+  const pagesMatch = filePath.match(/^((?:[^/]+\/)*?)pages\/(.+)\.[jt]sx?$/);
+  if (!pagesMatch || !isNextProject(rootPath, pagesMatch[1].replace(/\/$/, ''), projectDirs)) return undefined;
+
+  const segments = pagesMatch[2].split('/');
+  if (segments[0] === 'api') {
+    return { router: 'pages', kind: 'api', route: toRoutePath(segments) };
+  }
+  const fileName = segments[segments.length - 1];
+  if (fileName === '_app') return { router: 'pages', kind: 'layout', route: '/' };
+  if (fileName.startsWith('_')) return undefined;
+  return { router: 'pages', kind: 'page', route: toRoutePath(segments) };
+}
+
+/**
+ * A `next.config.*`, or a `package.json` depending on `next`, at or above `dir`.
+ * Answers are cached in `projectDirs` by directory.
+ */
+function isNextProject(rootPath: string, dir: string, projectDirs: Map<string, boolean>): boolean {
+  const key = dir === '.' ? '' : dir;
+  const cached = projectDirs.get(key);
+  if (cached !== undefined) return cached;
+
+  let isNext: boolean;
+  const packageJsonPath = path.join(rootPath, key, 'package.json');
+  if (NEXT_CONFIG_FILES.some((file) => fs.existsSync(path.join(rootPath, key, file)))) {
+    isNext = true;
+  } else if (fs.existsSync(packageJsonPath)) {
+    try {
+      const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      isNext = !!(pkg.dependencies?.next ?? pkg.devDependencies?.next);
+    } catch {
+      isNext = false;
+    }
+  } else {
+    isNext = key !== '' && isNextProject(rootPath, path.posix.dirname(key), projectDirs);
+  }
+
+  projectDirs.set(key, isNext);
+  return isNext;
+}
+
+/**
+ * Exported `GET` / `POST` / ... functions serving `route`: app-router route
+ * handlers, and SvelteKit `+server` endpoints which follow the same convention.
+ */
+export function findRouteHandlers(sourceFile: ts.SourceFile, route: string): FoundEndpoint[] {
+  const found: FoundEndpoint[] = [];
+  for (const { name, declaration, fn } of getTopLevelFunctions(sourceFile)) {
+    if (!NEXT_ROUTE_HANDLERS.includes(name)) continue;
+    if (!hasModifier(declaration, ts.SyntaxKind.ExportKeyword)) continue;
+    found.push({
+      method: name,
+      route,
+      node: declaration,
+      bodyStart: fn.body?.getStart(sourceFile),
+      exported: true,
+    });
+  }
+  return found;
+}
+
+/**
+ * Pages router: `export default function handler(req, res)` in `pages/api`, one
+ * endpoint per method it branches on, or `ALL` when it doesn't.
+ */
+export function findPagesApiHandlers(sourceFile: ts.SourceFile, route: string): FoundEndpoint[] {
+  const handler = getDefaultExportFunction(sourceFile);
+  if (!handler) return [];
+
+  const handlerName = getDefaultExportName(sourceFile);
+  const methods = getRequestMethods(handler.fn);
+  return (methods.length > 0 ? methods : ['ALL']).map((method) => ({
+    method,
+    route,
+    node: handler.declaration,
+    bodyStart: handler.fn.body?.getStart(sourceFile),
+    exported: true,
+    steps: handlerName ? [{ name: handlerName, role: 'handler', scope: 'route' }] : undefined,
+  }));
+}
+
+/**
+ * Server actions: exported async functions of a "use server" module, or any
+ * function whose body starts with "use server". They have no route of their own.
+ */
+export function findServerActions(sourceFile: ts.SourceFile): FoundEndpoint[] {
+  const found: FoundEndpoint[] = [];
+  if (hasUseServerDirective(sourceFile.statements)) {
+    for (const { name, declaration, fn } of getTopLevelFunctions(sourceFile)) {
+      if (!hasModifier(declaration, ts.SyntaxKind.ExportKeyword)) continue;
+      if (!hasModifier(fn, ts.SyntaxKind.AsyncKeyword)) continue;
+      found.push({
+        method: 'POST',
+        name,
+        node: declaration,
+        bodyStart: fn.body?.getStart(sourceFile),
+        exported: true,
+        serverAction: true,
+      });
+    }
+  } else {
+    const visitActions = (node: ts.Node): void => {
+      if (
+        (ts.isFunctionDeclaration(node) || ts.isArrowFunction(node) || ts.isFunctionExpression(node)) &&
+        node.body &&
+        ts.isBlock(node.body) &&
+        hasUseServerDirective(node.body.statements)
+      ) {
+        const declaration = ts.isVariableDeclaration(node.parent) ? node.parent : node;
+        const name = ts.isFunctionDeclaration(node)
+          ? node.name?.text
+          : ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)
+            ? node.parent.name.text
+            : undefined;
+        if (name) {
+          found.push({
+            method: 'POST',
+            name,
+            node: declaration,
+            bodyStart: node.body.getStart(sourceFile),
+            exported: hasModifier(declaration, ts.SyntaxKind.ExportKeyword),
+            serverAction: true,
+          });
+        }
+      }
+      ts.forEachChild(node, visitActions);
+    };
+    visitActions(sourceFile);
+  }
+  return found;
+}
+
+/** HTTP methods a pages-router API handler branches on: `req.method === 'POST'`, `case 'GET':` */
+function getRequestMethods(fn: ts.Node): string[] {
+  const methods = new Set<string>();
+  const isMethodAccess = (node: ts.Node) =>
+    ts.isPropertyAccessExpression(node) && node.name.text === 'method';
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isBinaryExpression(node) &&
+      [ts.SyntaxKind.EqualsEqualsEqualsToken, ts.SyntaxKind.EqualsEqualsToken].includes(
+        node.operatorToken.kind
+      )
+    ) {
+      const literal = isMethodAccess(node.left) ? node.right : isMethodAccess(node.right) ? node.left : undefined;
+      if (literal && ts.isStringLiteralLike(literal)) methods.add(literal.text.toUpperCase());
+    }
+    if (ts.isSwitchStatement(node) && isMethodAccess(node.expression)) {
+      for (const clause of node.caseBlock.clauses) {
+        if (ts.isCaseClause(clause) && ts.isStringLiteralLike(clause.expression)) {
+          methods.add(clause.expression.text.toUpperCase());
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(fn);
+  return Array.from(methods);
+}
+
+function hasUseServerDirective(statements: ts.NodeArray<ts.Statement>): boolean {
+  const [first] = statements;
+  return (
+    !!first &&
+    ts.isExpressionStatement(first) &&
+    ts.isStringLiteral(first.expression) &&
+    first.expression.text === 'use server'
+  );
+}
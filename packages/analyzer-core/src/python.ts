@@ -0,0 +1,406 @@
+/**
+ * Minimal Python source scanning: imports, top-level classes and functions
+ * (with their methods and decorators) and the remaining top-level statements.
+ * Blocks are delimited by indentation over logical lines, so brackets, strings
+ * and backslash continuations spanning several physical lines are handled.
+ * Line numbers are 1-based.
+ *
+ * FastAPI / Flask routers and routes and Django `urlpatterns` are read from the
+ * parsed module.
+ */
+
+/** `@app.get(...)`, `@router.post(...)`, `@bp.route(...)`, `@app.api_route(...)` */
+const PYTHON_ROUTE_DECORATOR = /^(\w+)\.(get|post|put|patch|delete|head|options|route|api_route)$/;
+
+export interface PythonImport {
+  /** Module as written: `app.models`, `.views`, `..` */
+  module: string;
+  /** `from m import a as b` -> [{ name: 'a', localName: 'b' }]; empty for `import m` */
+  names: { name: string; localName: string }[];
+  /** Name bound by `import m` / `import m as alias` */
+  localName?: string;
+  line: number;
+}
+
+export interface PythonDecorator {
+  /** Dotted callee: `app.get`, `staticmethod` */
+  name: string;
+  /** Text between the parentheses, if called */
+  args?: string;
+  line: number;
+}
+
+export interface PythonDefinition {
+  kind: 'class' | 'function';
+  name: string;
+  async: boolean;
+  decorators: PythonDecorator[];
+  /** Parameter list text for functions, base list for classes */
+  params: string;
+  /** `def name(...) -> T` / `class Name(Base)` */
+  signature: string;
+  /** First line, including decorators */
+  startLine: number;
+  /** Line of the `def` / `class` keyword */
+  defLine: number;
+  endLine: number;
+  /** Methods of a class */
+  members: PythonDefinition[];
+}
+
+export interface PythonStatement {
+  /** Source text with comments removed; physical newlines are kept */
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface PythonModule {
+  imports: PythonImport[];
+  definitions: PythonDefinition[];
+  /** Top-level statements other than imports, decorators and definitions */
+  statements: PythonStatement[];
+  /** Names listed in `__all__`, when the module declares it */
+  exportList?: string[];
+}
+
+export interface PythonRoute {
+  /** App, router or blueprint the decorator is called on */
+  receiver: string;
+  method: string;
+  route: string;
+}
+
+/** `app.include_router(users.router, prefix="/users")`, `app.register_blueprint(bp)` or `app.mount("/admin", admin_app)` */
+export interface PythonRouterMount {
+  parent: string;
+  /** Dotted reference to the mounted router or app */
+  childName: string;
+  prefix: string;
+}
+
+/** One `path()` / `re_path()` / `url()` entry of Django `urlpatterns` */
+export interface DjangoUrlPattern {
+  call: 'path' | 're_path' | 'url';
+  /** Pattern as written */
+  pattern: string;
+  /** Pattern without the `^` / `$` anchors of regex patterns */
+  route: string;
+  line: number;
+  /** Module of `include('api.urls')` */
+  include?: string;
+  /** Dotted view reference: `views.user_detail`, `UserView` for `UserView.as_view()` */
+  handler?: string;
+}
+
+interface LogicalLine extends PythonStatement {
+  indent: number;
+}
+
+export function parsePythonModule(text: string): PythonModule {
+  const lines = getLogicalLines(text);
+  const module: PythonModule = { imports: [], definitions: [], statements: [] };
+
+  for (const line of lines) {
+    module.imports.push(...parseImport(line));
+  }
+
+  let decorators: PythonDecorator[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.indent > 0) continue;
+
+    if (line.text.startsWith('@')) {
+      const decorator = parseDecorator(line);
+      if (decorator) decorators.push(decorator);
+      continue;
+    }
+
+    const definition = parseDefinition(lines, i, decorators);
+    decorators = [];
+    if (definition) {
+      module.definitions.push(definition);
+      continue;
+    }
+
+    if (!/^(?:import|from)\s/.test(line.text)) {
+      module.statements.push({ text: line.text, startLine: line.startLine, endLine: line.endLine });
+      const exportList = line.text.match(/^__all__\s*(?::[^=]*)?=\s*[[(]([\s\S]*)[\])]$/);
+      if (exportList) {
+        module.exportList = Array.from(exportList[1].matchAll(/['"](\w+)['"]/g), (m) => m[1]);
+      }
+    }
+  }
+  return module;
+}
+
+/** The line a character offset of a statement's text falls on */
+export function getStatementLine(statement: PythonStatement, offset: number): number {
+  return statement.startLine + (statement.text.slice(0, offset).match(/\n/g)?.length ?? 0);
+}
+
+/** `from .pkg import views` -> `.pkg.views`; `from . import views` -> `.views` */
+export function joinPythonModule(module: string, name: string): string {
+  return module.endsWith('.') ? `${module}${name}` : `${module}.${name}`;
+}
+
+/** Base classes from a class header, without `object`, keyword arguments and type parameters */
+export function getPythonBases(params: string): string[] {
+  return params
+    .split(',')
+    .map((base) => base.replace(/\[[\s\S]*$/, '').trim())
+    .filter((base) => /^[A-Za-z_][\w.]*$/.test(base) && base !== 'object');
+}
+
+/** `router = APIRouter(prefix="/users")`, `bp = Blueprint("users", __name__, url_prefix="/users")`: name -> prefix */
+export function getPythonRouters(module: PythonModule): Map<string, string> {
+  const routers = new Map<string, string>();
+  for (const statement of module.statements) {
+    const router = statement.text.match(
+      /^(\w+)\s*(?::[^=]+)?=\s*(?:[\w.]+\.)?(?:FastAPI|APIRouter|Flask|Blueprint)\s*\(([\s\S]*)\)$/
+    );
+    if (router) routers.set(router[1], getPythonKeyword(router[2], ['prefix', 'url_prefix']) ?? '');
+  }
+  return routers;
+}
+
+/** Routes a FastAPI / Flask decorator declares on a function, one per HTTP method */
+export function getPythonRoutes(definition: PythonDefinition): PythonRoute[] {
+  const routes: PythonRoute[] = [];
+  for (const decorator of definition.decorators) {
+    const match = decorator.name.match(PYTHON_ROUTE_DECORATOR);
+    if (!match || decorator.args === undefined) continue;
+    const route =
+      decorator.args.match(/^\s*[rfbu]?(['"])(.*?)\1/)?.[2] ?? getPythonKeyword(decorator.args, ['path', 'rule']);
+    if (route === undefined) continue;
+
+    const methodList = decorator.args.match(/\bmethods\s*=\s*[[({]([^\])}]*)[\])}]/)?.[1];
+    const methods =
+      match[2] !== 'route' && match[2] !== 'api_route'
+        ? [match[2].toUpperCase()]
+        : methodList
+          ? Array.from(methodList.matchAll(/['"](\w+)['"]/g), (m) => m[1].toUpperCase())
+          : ['GET'];
+    for (const method of methods) routes.push({ receiver: match[1], method, route });
+  }
+  return routes;
+}
+
+/** Router, blueprint or sub-application mounted by a top-level statement */
+export function getPythonRouterMount(statement: PythonStatement): PythonRouterMount | undefined {
+  const include = statement.text.match(/^(\w+)\.(?:include_router|register_blueprint)\s*\(\s*([\w.]+)([\s\S]*)\)$/);
+  if (include) {
+    const prefix = getPythonKeyword(include[3], ['prefix', 'url_prefix']) ?? '';
+    return { parent: include[1], childName: include[2], prefix };
+  }
+  const mount = statement.text.match(/^(\w+)\.mount\s*\(\s*(['"])(.*?)\2\s*,\s*([\w.]+)/);
+  return mount ? { parent: mount[1], childName: mount[4], prefix: mount[3] } : undefined;
+}
+
+/** Entries of a `urlpatterns = [...]` (or `+=`) statement; none for other statements */
+export function getDjangoUrlPatterns(statement: PythonStatement): DjangoUrlPattern[] {
+  if (!/^urlpatterns\s*(?::[^=]+)?\+?=/.test(statement.text)) return [];
+  const pattern = /\b(path|re_path|url)\s*\(\s*r?(['"])(.*?)\2\s*,\s*/g;
+
+  return Array.from(statement.text.matchAll(pattern), (match) => {
+    const call = match[1] as DjangoUrlPattern['call'];
+    const view = statement.text.slice(match.index! + match[0].length);
+    const include = view.match(/^include\s*\(\s*(['"])([\w.]+)\1/)?.[2];
+    const handler = include ? undefined : view.match(/^([A-Za-z_][\w.]*?)(?:\.as_view\s*\(|\s*[,)])/)?.[1];
+    return {
+      call,
+      pattern: match[3],
+      route: call === 'path' ? match[3] : match[3].replace(/^\^|\$$/g, ''),
+      line: getStatementLine(statement, match.index!),
+      ...(include ? { include } : {}),
+      ...(handler ? { handler } : {}),
+    };
+  });
+}
+
+/** String value of the first matching keyword argument: `prefix="/users"` */
+function getPythonKeyword(args: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = args.match(new RegExp(`\\b${name}\\s*=\\s*[rfbu]?(['"])(.*?)\\1`))?.[2];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function parseDefinition(
+  lines: LogicalLine[],
+  index: number,
+  decorators: PythonDecorator[]
+): PythonDefinition | undefined {
+  const line = lines[index];
+  const header = line.text.match(/^(async\s+)?(def|class)\s+([A-Za-z_]\w*)\s*/);
+  if (!header) return undefined;
+
+  // The block is every following line indented deeper than the header
+  let end = index + 1;
+  while (end < lines.length && lines[end].indent > line.indent) end++;
+
+  let params = '';
+  let afterParams = header[0].length;
+  if (line.text[afterParams] === '(') {
+    const close = findClosingParen(line.text, afterParams);
+    params = line.text.slice(afterParams + 1, close).trim();
+    afterParams = close + 1;
+  }
+  const returnType =
+    header[2] === 'def' ? line.text.slice(afterParams).match(/^\s*->\s*([^:]+?)\s*:/)?.[1] : undefined;
+  const signature =
+    header[2] === 'def'
+      ? `${header[1] ? 'async ' : ''}def ${header[3]}(${params.replace(/\s+/g, ' ')})${returnType ? ` -> ${returnType}` : ''}`
+      : `class ${header[3]}${params ? `(${params.replace(/\s+/g, ' ')})` : ''}`;
+
+  const members: PythonDefinition[] = [];
+  if (header[2] === 'class' && end > index + 1) {
+    const bodyIndent = lines[index + 1].indent;
+    let memberDecorators: PythonDecorator[] = [];
+    for (let i = index + 1; i < end; i++) {
+      if (lines[i].indent !== bodyIndent) continue;
+      if (lines[i].text.startsWith('@')) {
+        const decorator = parseDecorator(lines[i]);
+        if (decorator) memberDecorators.push(decorator);
+        continue;
+      }
+      const member = parseDefinition(lines, i, memberDecorators);
+      memberDecorators = [];
+      if (member?.kind === 'function') members.push(member);
+    }
+  }
+
+  return {
+    kind: header[2] === 'def' ? 'function' : 'class',
+    name: header[3],
+    async: !!header[1],
+    decorators,
+    params,
+    signature,
+    startLine: decorators[0]?.line ?? line.startLine,
+    defLine: line.startLine,
+    endLine: lines[end - 1].endLine,
+    members,
+  };
+}
+
+function parseDecorator(line: LogicalLine): PythonDecorator | undefined {
+  const match = line.text.match(/^@\s*([A-Za-z_][\w.]*)\s*/);
+  if (!match) return undefined;
+  const open = match[0].length;
+  return {
+    name: match[1],
+    ...(line.text[open] === '(' ? { args: line.text.slice(open + 1, findClosingParen(line.text, open)) } : {}),
+    line: line.startLine,
+  };
+}
+
+function parseImport(line: LogicalLine): PythonImport[] {
+  const fromImport = line.text.match(/^from\s+(\.*[\w.]*)\s+import\s+([\s\S]+)$/);
+  if (fromImport) {
+    const names = fromImport[2]
+      .replace(/[()]/g, '')
+      .split(',')
+      .map((part) => part.trim().split(/\s+as\s+/))
+      .filter(([name]) => !!name)
+      .map(([name, alias]) => ({ name, localName: alias ?? name }));
+    return [{ module: fromImport[1], names, line: line.startLine }];
+  }
+
+  const plainImport = line.text.match(/^import\s+([\s\S]+)$/);
+  if (!plainImport) return [];
+  return plainImport[1]
+    .split(',')
+    .map((part) => part.trim().split(/\s+as\s+/))
+    .filter(([module]) => !!module)
+    .map(([module, alias]) => ({ module, names: [], localName: alias ?? module, line: line.startLine }));
+}
+
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Splits source into logical lines: comments are dropped, and a line continues
+ * while brackets are open, a string is unterminated or it ends in `\`.
+ */
+function getLogicalLines(text: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current = '';
+  let indent = 0;
+  let startLine = 1;
+  let line = 1;
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === '\\') {
+        current += text.slice(i, i + 2);
+        if (text[i + 1] === '\n') line++;
+        i++;
+      } else if (text.startsWith(quote, i)) {
+        current += quote;
+        i += quote.length - 1;
+        quote = undefined;
+      } else if (char === '\n' && quote.length === 1) {
+        // Unterminated single-line string: recover at the end of the line
+        quote = undefined;
+        i--;
+      } else {
+        current += char;
+        if (char === '\n') line++;
+      }
+      continue;
+    }
+
+    if (char === '\r') continue;
+    if (char === '\n') {
+      if (depth === 0 && current.trim()) {
+        lines.push({ text: current.trimEnd(), indent, startLine, endLine: line });
+        current = '';
+      } else if (current.trim()) {
+        current += char;
+      }
+      line++;
+      if (!current) indent = 0;
+      continue;
+    }
+    if (!current.trim() && (char === ' ' || char === '\t')) {
+      if (!current) indent++;
+      continue;
+    }
+    if (char === '#') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+      continue;
+    }
+    if (char === '\\' && text[i + 1] === '\n') {
+      current += '\n';
+      line++;
+      i++;
+      continue;
+    }
+
+    if (!current) startLine = line;
+    if (char === '"' || char === "'") {
+      quote = text.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      current += quote;
+      i += quote.length - 1;
+      continue;
+    }
+    if ('([{'.includes(char)) depth++;
+    else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    current += char;
+  }
+
+  if (current.trim()) lines.push({ text: current.trimEnd(), indent, startLine, endLine: line });
+  return lines;
+}
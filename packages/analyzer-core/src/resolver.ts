@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+const PYTHON_FILE_PATTERN = /\.py$/;
+
+/** Conventional aliases tried when no tsconfig `paths` entry matches */
+const DEFAULT_ALIASES = ['@/', '~/'];
+
+/** SvelteKit's built-in alias for `src/lib` */
+const SVELTEKIT_LIB_ALIAS = '$lib/';
+
+interface PathConfig {
+  /** Directory (relative to the root) of the nearest tsconfig/jsconfig */
+  configDir: string;
+  /** Resolved `baseUrl`, relative to the root */
+  baseUrl?: string;
+  /** Directory `paths` targets are relative to */
+  pathsBase: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Resolves import specifiers to files in the analyzed set.
+ *
+ * Handles relative paths, tsconfig/jsconfig `paths` and `baseUrl` (following
+ * relative `extends`), the conventional `@/` and `~/` aliases, SvelteKit's `$lib`, `index.*` files
+ * and extension inference. Python files resolve dotted module names instead.
+ * All paths are root-relative with forward slashes.
+ */
+export class ImportResolver {
+  private configByDir: Map<string, PathConfig | undefined> = new Map();
+
+  constructor(
+    private readonly rootPath: string,
+    private readonly files: Set<string>
+  ) {}
+
+  resolve(fromFile: string, specifier: string): string | undefined {
+    if (PYTHON_FILE_PATTERN.test(fromFile)) {
+      return this.resolvePythonModule(fromFile, specifier);
+    }
+    if (specifier.startsWith('.')) {
+      return this.resolveModulePath(path.posix.join(path.posix.dirname(fromFile), specifier));
+    }
+
+    const config = this.getPathConfig(path.posix.dirname(fromFile));
+
+    if (config) {
+      const fromPaths = this.resolveFromPaths(config, specifier);
+      if (fromPaths) return fromPaths;
+    }
+
+    if (specifier.startsWith(SVELTEKIT_LIB_ALIAS)) {
+      const rest = specifier.slice(SVELTEKIT_LIB_ALIAS.length);
+      return this.resolveModulePath(path.posix.join(config?.configDir ?? '', 'src/lib', rest));
+    }
+
+    const alias = DEFAULT_ALIASES.find((a) => specifier.startsWith(a));
+    if (alias) {
+      const rest = specifier.slice(alias.length);
+      const baseDir = config?.configDir ?? '';
+      return (
+        this.resolveModulePath(path.posix.join(baseDir, 'src', rest)) ??
+        this.resolveModulePath(path.posix.join(baseDir, rest))
+      );
+    }
+
+    if (config?.baseUrl !== undefined) {
+      return this.resolveModulePath(path.posix.join(config.baseUrl, specifier));
+    }
+    return undefined;
+  }
+
+  /**
+   * True when the specifier points into the project (relative or aliased) rather
+   * than at a package, whether or not it resolves to an analyzed file.
+   */
+  isLocalSpecifier(fromFile: string, specifier: string): boolean {
+    if (PYTHON_FILE_PATTERN.test(fromFile)) {
+      return specifier.startsWith('.') || this.resolvePythonModule(fromFile, specifier) !== undefined;
+    }
+    if (
+      specifier.startsWith('.') ||
+      specifier.startsWith(SVELTEKIT_LIB_ALIAS) ||
+      DEFAULT_ALIASES.some((a) => specifier.startsWith(a))
+    ) {
+      return true;
+    }
+    const config = this.getPathConfig(path.posix.dirname(fromFile));
+    return (
+      !!config &&
+      Object.keys(config.paths).some((pattern) => matchPathPattern(pattern, specifier) !== undefined)
+    );
+  }
+
+  private resolveFromPaths(config: PathConfig, specifier: string): string | undefined {
+    // Like TypeScript: the pattern with the longest prefix before `*` wins
+    let best: { pattern: string; captured: string } | undefined;
+    for (const pattern of Object.keys(config.paths)) {
+      const captured = matchPathPattern(pattern, specifier);
+      if (captured === undefined) continue;
+      if (!best || pattern.indexOf('*') > best.pattern.indexOf('*')) {
+        best = { pattern, captured };
+      }
+    }
+    if (!best) return undefined;
+
+    for (const target of config.paths[best.pattern]) {
+      const resolved = this.resolveModulePath(
+        path.posix.join(config.pathsBase, target.replace('*', best.captured))
+      );
+      if (resolved) return resolved;
+    }
+    return undefined;
+  }
+
+  private resolveModulePath(basePath: string): string | undefined {
+    const candidates = [basePath];
+    // ESM-style TypeScript imports name the emitted file: './foo.js' -> './foo.ts'
+    const emittedExt = basePath.match(/\.[cm]?jsx?$/);
+    if (emittedExt) {
+      const stem = basePath.slice(0, -emittedExt[0].length);
+      candidates.push(stem + '.ts', stem + '.tsx');
+    }
+    for (const ext of RESOLVE_EXTENSIONS) candidates.push(basePath + ext);
+    for (const ext of RESOLVE_EXTENSIONS) candidates.push(`${basePath}/index${ext}`);
+    return candidates.find((candidate) => this.files.has(candidate));
+  }
+
+  /**
+   * `.models` / `..core.db` relative to the importing package, or `app.models`
+   * from the root or any directory above the importing file (source roots such
+   * as `backend/` or `src/`), as `<module>.py` or `<module>/__init__.py`.
+   */
+  private resolvePythonModule(fromFile: string, module: string): string | undefined {
+    const level = module.match(/^\.*/)![0].length;
+    const modulePath = module.slice(level).split('.').filter(Boolean).join('/');
+    const candidates = (dir: string) => {
+      const base = path.posix.join(dir, modulePath);
+      const init = path.posix.join(base, '__init__.py');
+      return modulePath ? [`${base}.py`, init] : [init];
+    };
+
+    if (level > 0) {
+      let dir = path.posix.dirname(fromFile);
+      for (let i = 1; i < level; i++) dir = path.posix.dirname(dir);
+      return candidates(dir).find((candidate) => this.files.has(candidate));
+    }
+
+    const dirs = path.posix.dirname(fromFile).split('/');
+    for (let depth = 0; depth <= dirs.length; depth++) {
+      const dir = dirs.slice(0, depth).join('/').replace(/^\.$/, '');
+      const found = candidates(dir).find((candidate) => this.files.has(candidate));
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  // ----------- tsconfig / jsconfig -----------
+
+  /** Nearest tsconfig/jsconfig at or above `dir` (root-relative), cached per directory */
+  private getPathConfig(dir: string): PathConfig | undefined {
+    const key = dir === '.' ? '' : dir;
+    if (this.configByDir.has(key)) return this.configByDir.get(key);
+
+    let config: PathConfig | undefined;
+    const configFile = CONFIG_FILES.map((name) => path.posix.join(key, name)).find((file) =>
+      fs.existsSync(path.join(this.rootPath, file))
+    );
+    if (configFile) {
+      config = this.loadPathConfig(configFile);
+    } else if (key !== '') {
+      config = this.getPathConfig(path.posix.dirname(key));
+    }
+
+    this.configByDir.set(key, config);
+    return config;
+  }
+
+  private loadPathConfig(configFile: string): PathConfig {
+    const configDir = path.posix.dirname(configFile) === '.' ? '' : path.posix.dirname(configFile);
+    const config: PathConfig = { configDir, pathsBase: configDir, paths: {} };
+    let baseUrlSet = false;
+    let pathsSet = false;
+
+    // Walk the `extends` chain child-first; the first file to set an option wins
+    const seen = new Set<string>();
+    let current: string | undefined = configFile;
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const { config: raw } = ts.readConfigFile(path.join(this.rootPath, current), ts.sys.readFile);
+      const currentDir = path.posix.dirname(current);
+      const options = raw?.compilerOptions ?? {};
+
+      if (!baseUrlSet && typeof options.baseUrl === 'string') {
+        config.baseUrl = path.posix.join(currentDir, options.baseUrl);
+        baseUrlSet = true;
+      }
+      if (!pathsSet && options.paths && typeof options.paths === 'object') {
+        config.paths = options.paths;
+        // Without baseUrl, `paths` are relative to the config that declares them
+        config.pathsBase = currentDir;
+        pathsSet = true;
+      }
+
+      const extendsValue: unknown = Array.isArray(raw?.extends) ? raw.extends[0] : raw?.extends;
+      current =
+        typeof extendsValue === 'string' && extendsValue.startsWith('.')
+          ? normalizeConfigPath(path.posix.join(currentDir, extendsValue))
+          : undefined;
+    }
+
+    if (config.baseUrl !== undefined) {
+      config.pathsBase = config.baseUrl;
+    }
+    return config;
+  }
+}
+
+/**
+ * Matches a tsconfig `paths` pattern (at most one `*`) against a specifier,
+ * returning the text captured by `*` ('' for exact patterns) or undefined.
+ */
+function matchPathPattern(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === specifier ? '' : undefined;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return undefined;
+}
+
+function normalizeConfigPath(configPath: string): string {
+  return /\.json$/.test(configPath) ? configPath : `${configPath}.json`;
+}
@@ -0,0 +1,273 @@
+import * as ts from 'typescript';
+import { escapeRegExp, getStringProperty, unwrapExpression, unwrapFunction } from './syntax';
+
+/**
+ * HTTP routing shared by every framework: endpoints found in a file, the
+ * middleware and handlers each one runs, and routers mounted on one another.
+ * Express, Hono and Fastify routes are found here; the framework modules add
+ * their own endpoints in the same shape.
+ */
+
+const HTTP_ROUTE_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'all'];
+/** Receivers treated as routers without a visible `Router()` / `new Hono()` declaration */
+const ROUTE_RECEIVERS = ['app', 'router', 'fastify'];
+/** Calls that create an app or router: `express()`, `Router()`, `new Hono()`, `Fastify()` */
+const ROUTER_FACTORY_PATTERN = /^(express|(\w+\.)?Router|Hono|[Ff]astify)$/;
+
+/** An endpoint found in a file, before it becomes a node */
+export interface FoundEndpoint {
+  method: string;
+  /** Absent for server actions, which have no URL of their own */
+  route?: string;
+  /** Defaults to `METHOD /route` */
+  name?: string;
+  node: ts.Node;
+  bodyStart?: number;
+  exported: boolean;
+  steps?: RouteStep[];
+  routerId?: string;
+  serverAction?: boolean;
+  /** Non-REST endpoints: the route is a procedure path or a root-type field */
+  api?: 'trpc' | 'graphql';
+}
+
+export interface RouteStep {
+  /** Reference as written: `auth`, `validate` for `validate(schema)`, `users.create` */
+  name: string;
+  role: 'middleware' | 'handler';
+  /**
+   * `app` for middleware registered with `.use()`, `controller` for Nest enhancers on
+   * the controller class, `route` for the route's own arguments or decorators
+   */
+  scope: 'app' | 'controller' | 'route';
+  /** Nest enhancer kind; the referenced class becomes a `middleware` node */
+  kind?: 'guard' | 'interceptor' | 'pipe';
+  /** File the reference is written in when it isn't the route's, e.g. app middleware for a mounted router */
+  filePath?: string;
+}
+
+/** `app.use('/api', users)`, `app.register(plugin, { prefix })` or `app.route('/x', sub)` */
+export interface PendingMount {
+  filePath: string;
+  /** Router the child is mounted on, keyed `file#router` */
+  parentId: string;
+  prefix: string;
+  /** Local name of the mounted router or plugin */
+  childName: string;
+  /** Child router ID when known up front (Python `include_router`, Django `include()`) */
+  childId?: string;
+  /** Parent's `.use()` middleware registered before the mount, with the path each is limited to */
+  middleware?: Array<{ prefix?: string; names: string[] }>;
+}
+
+/**
+ * Express-style routes (`app.get('/x', ...)`, `router.post('/x', auth, validate, createUser)`
+ * and the Hono and Fastify equivalents), and routers mounted on others with
+ * `app.use('/api', users)`, Hono `app.route()` or Fastify `app.register()`.
+ * Routers are keyed `file#router`.
+ */
+export function findHttpRoutes(
+  sourceFile: ts.SourceFile,
+  filePath: string
+): { endpoints: FoundEndpoint[]; mounts: PendingMount[] } {
+  const endpoints: FoundEndpoint[] = [];
+  const mounts: PendingMount[] = [];
+
+  const routers = getRouterDeclarations(sourceFile);
+  // `app.use([path], ...middleware)` applies to routes registered after it on the same receiver
+  const appMiddleware = new Map<string, Array<{ prefix?: string; names: string[] }>>();
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      (ROUTE_RECEIVERS.includes(node.expression.expression.text) ||
+        routers.has(node.expression.expression.text))
+    ) {
+      const receiver = node.expression.expression.text;
+      const routerId = `${filePath}#${getRouterName(node.expression.expression)}`;
+      const method = node.expression.name.text;
+      const [routeArg, ...handlerArgs] = node.arguments;
+      const routeText = routeArg && ts.isStringLiteralLike(routeArg) ? routeArg.text : undefined;
+
+      if (method === 'use') {
+        const prefix = routeText;
+        const args = prefix !== undefined ? handlerArgs : node.arguments;
+        const names = args.flatMap((arg) => getHandlerReferences(sourceFile, arg));
+        const middleware = names.filter((name) => !routers.has(name));
+        const registered = appMiddleware.get(receiver) ?? [];
+        // Any identifier may be a router from another file; unmounted ones are dropped later.
+        // Middleware registered before the mount, including earlier arguments, runs first
+        names.forEach((name, index) => {
+          if (name.includes('.')) return;
+          mounts.push({
+            filePath,
+            parentId: routerId,
+            prefix: prefix ?? '',
+            childName: name,
+            middleware: [...registered, { prefix, names: middleware.filter((m) => names.indexOf(m) < index) }],
+          });
+        });
+        if (middleware.length > 0) {
+          appMiddleware.set(receiver, [...registered, { prefix, names: middleware }]);
+        }
+      } else if (method === 'route' && routeText !== undefined && handlerArgs[0]) {
+        // Hono: app.route('/users', users)
+        const [child] = getHandlerReferences(sourceFile, handlerArgs[0]);
+        if (child) mounts.push({ filePath, parentId: routerId, prefix: routeText, childName: child });
+      } else if (method === 'register' && routeArg && ts.isIdentifier(routeArg)) {
+        // Fastify: app.register(userRoutes, { prefix: '/users' })
+        const options = handlerArgs[0] && unwrapExpression(handlerArgs[0]);
+        const prefix = options && ts.isObjectLiteralExpression(options) ? getStringProperty(options, 'prefix') : undefined;
+        mounts.push({ filePath, parentId: routerId, prefix: prefix ?? '', childName: routeArg.text });
+      } else if (HTTP_ROUTE_METHODS.includes(method) && routeArg && ts.isStringLiteralLike(routeArg)) {
+        const route = routeArg.text;
+        const steps: RouteStep[] = [];
+        for (const { prefix, names } of appMiddleware.get(receiver) ?? []) {
+          if (prefix !== undefined && !routeHasPrefix(route, prefix)) continue;
+          steps.push(...names.map((name) => ({ name, role: 'middleware' as const, scope: 'app' as const })));
+        }
+
+        // The last argument is the handler unless it is written inline
+        const lastArg = handlerArgs[handlerArgs.length - 1];
+        const inlineHandler = !!lastArg && isInlineHandler(lastArg);
+        handlerArgs.forEach((arg, index) => {
+          const role = index === handlerArgs.length - 1 && !inlineHandler ? 'handler' : 'middleware';
+          for (const name of getHandlerReferences(sourceFile, arg)) {
+            steps.push({ name, role, scope: 'route' });
+          }
+        });
+
+        endpoints.push({
+          method: method.toUpperCase(),
+          route,
+          node,
+          bodyStart: handlerArgs[0]?.getStart(sourceFile),
+          exported: false,
+          steps,
+          routerId,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return { endpoints, mounts };
+}
+
+/**
+ * Named functions passed to `app.use()` / `app.get()`: `auth`, `users.create`,
+ * the factory in `validate(schema)`, each entry of `[auth, audit]`, and the
+ * class in `new ValidationPipe()` for Nest enhancers.
+ * Inline functions have no name to link and yield nothing.
+ */
+export function getHandlerReferences(sourceFile: ts.SourceFile, arg: ts.Expression): string[] {
+  const expression = unwrapExpression(arg);
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.flatMap((element) => getHandlerReferences(sourceFile, element));
+  }
+  if (ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression)) {
+    return [expression.getText(sourceFile)];
+  }
+  if (
+    (ts.isCallExpression(expression) && !isInlineHandler(expression)) ||
+    ts.isNewExpression(expression)
+  ) {
+    const callee = expression.expression;
+    if (ts.isIdentifier(callee) || ts.isPropertyAccessExpression(callee)) {
+      return [callee.getText(sourceFile)];
+    }
+  }
+  return [];
+}
+
+/** `(req, res) => {}`, or a wrapper around one such as `asyncHandler(async (req, res) => {})` */
+function isInlineHandler(arg: ts.Expression): boolean {
+  const expression = unwrapExpression(arg);
+  if (unwrapFunction(expression)) return true;
+  return (
+    ts.isCallExpression(expression) &&
+    expression.arguments.some((a) => ts.isArrowFunction(a) || ts.isFunctionExpression(a))
+  );
+}
+
+/** Top-level `const users = Router()`, `const app = new Hono()`, ... in a file */
+function getRouterDeclarations(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    const declarations = ts.isVariableStatement(statement) ? statement.declarationList.declarations : [];
+    for (const d of declarations) {
+      const initializer = d.initializer && unwrapExpression(d.initializer);
+      if (
+        ts.isIdentifier(d.name) &&
+        initializer &&
+        (ts.isCallExpression(initializer) || ts.isNewExpression(initializer)) &&
+        ROUTER_FACTORY_PATTERN.test(initializer.expression.getText(sourceFile))
+      ) {
+        names.add(d.name.text);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Name identifying the router a receiver refers to within its file: the variable
+ * itself, or for a Fastify plugin's first parameter, the plugin function
+ * (`default` when it is an anonymous default export).
+ */
+function getRouterName(receiver: ts.Identifier): string {
+  for (let current: ts.Node | undefined = receiver.parent; current; current = current.parent) {
+    if (!ts.isFunctionLike(current)) continue;
+    const [firstParam] = current.parameters;
+    if (!firstParam || !ts.isIdentifier(firstParam.name) || firstParam.name.text !== receiver.text) {
+      continue;
+    }
+    if (ts.isFunctionDeclaration(current)) {
+      return current.name?.text ?? 'default';
+    }
+    // Look through wrappers such as `fp(async (fastify) => {})`
+    let owner = current.parent;
+    while (ts.isCallExpression(owner)) owner = owner.parent;
+    if (ts.isVariableDeclaration(owner) && ts.isIdentifier(owner.name)) return owner.name.text;
+    if (ts.isExportAssignment(owner)) return 'default';
+    break;
+  }
+  return receiver.text;
+}
+
+/** `joinRoutes('/api/', '/users')` -> `/api/users` */
+export function joinRoutes(...parts: string[]): string {
+  const segments = parts.flatMap((part) => part.split('/')).filter(Boolean);
+  return `/${segments.join('/')}`;
+}
+
+export function routeHasPrefix(route: string, prefix: string): boolean {
+  const base = prefix.replace(/\/$/, '');
+  return base === '' || route === base || route.startsWith(`${base}/`);
+}
+
+/** Matches a concrete URL path against an Express (`:id`) or Next (`[id]`, `[...slug]`) route */
+export function routeMatches(route: string, url: string): boolean {
+  const pathOnly = url.split(/[?#]/)[0].replace(/\/$/, '');
+  const pattern = route
+    .replace(/\/$/, '')
+    .split('/')
+    .map((segment) => {
+      if (/^\[\[?\.\.\./.test(segment)) return '.+';
+      // `[id]`, `:id`, FastAPI `{id}`, Flask / Django `<int:id>`
+      if (/^(\[.+\]|\{.+\}|<.+>)$/.test(segment) || segment.startsWith(':')) return '[^/]+';
+      return escapeRegExp(segment);
+    })
+    .join('/');
+  return new RegExp(`^${pattern}$`).test(pathOnly);
+}
+
+/** URL for file-system route segments: drops `(group)`, `@slot` and trailing `index` */
+export function toRoutePath(segments: string[]): string {
+  const routed = segments.filter((s) => !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+  if (routed[routed.length - 1] === 'index') routed.pop();
+  return `/${routed.join('/')}`;
+}
+
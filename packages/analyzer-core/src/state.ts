@@ -0,0 +1,191 @@
+import * as ts from 'typescript';
+import {
+  escapeRegExp,
+  getImportedName,
+  getImportSpecifier,
+  getStringProperty,
+  unwrapExpression,
+  unwrapFunction,
+} from './syntax';
+
+/**
+ * Shared state: stores created by Redux Toolkit, Zustand, Jotai and React
+ * context factories, and the code patterns that read or write them.
+ */
+
+export type StateLibrary = 'redux' | 'zustand' | 'jotai' | 'react';
+
+/** Top-level factories that create shared state, by the package they are imported from */
+const STATE_FACTORIES: {
+  library: StateLibrary;
+  specifier: RegExp;
+  factories: Record<string, StoreDefinition['kind']>;
+}[] = [
+  {
+    library: 'redux',
+    specifier: /^(@reduxjs\/toolkit|redux)$/,
+    factories: { createSlice: 'slice', configureStore: 'store', createStore: 'store' },
+  },
+  { library: 'zustand', specifier: /^zustand(\/|$)/, factories: { create: 'store', createStore: 'store' } },
+  {
+    library: 'jotai',
+    specifier: /^jotai(\/|$)/,
+    factories: { atom: 'atom', atomWithStorage: 'atom', atomWithReset: 'atom', atomFamily: 'atom' },
+  },
+  { library: 'react', specifier: /^react$/, factories: { createContext: 'context' } },
+];
+
+export interface StoreDefinition {
+  library: StateLibrary;
+  kind: 'slice' | 'store' | 'atom' | 'context';
+  /** Redux slice `name`, the key its state lives under */
+  sliceName?: string;
+  /** Redux slice reducers, or function-valued fields of a Zustand store */
+  actions: string[];
+}
+
+/** A read or write of shared state found in code, named as the code refers to it */
+export interface StateUse {
+  library: StateLibrary;
+  mode: 'read' | 'write';
+  /** Local name the state is reached through: context, atom, store hook, selector or action creator */
+  name?: string;
+  /** Redux: slice read through `useSelector((state) => state.<sliceName>)` */
+  sliceName?: string;
+  /** Redux: action creator a `dispatch(name(...))` or `dispatch(name.actions.x(...))` calls */
+  action?: string;
+}
+
+/**
+ * Store created by a call like `createSlice({...})`, `create<State>()((set) => ...)`,
+ * `atom(0)` or `React.createContext()`, recognized by the package the factory is
+ * imported from.
+ */
+export function getStoreDefinition(sourceFile: ts.SourceFile, call: ts.CallExpression): StoreDefinition | undefined {
+  // `create<State>()(...)` is Zustand's curried form for typed stores
+  const factory = ts.isCallExpression(call.expression) ? call.expression : call;
+  const callee = factory.expression;
+  const [head, name] = ts.isIdentifier(callee)
+    ? [callee.text, callee.text]
+    : ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)
+      ? [callee.expression.text, callee.name.text]
+      : [];
+  const specifier = head ? getImportSpecifier(sourceFile, head) : undefined;
+  if (!name || !specifier) return undefined;
+
+  // The imported name, so aliased imports (`import { create as createStore }`) still match
+  const factoryName = head === name ? (getImportedName(sourceFile, head) ?? name) : name;
+  const library = STATE_FACTORIES.find((l) => l.specifier.test(specifier) && factoryName in l.factories);
+  if (!library) return undefined;
+
+  const kind = library.factories[factoryName];
+  const [options] = factory.arguments;
+  if (kind === 'slice' && options && ts.isObjectLiteralExpression(options)) {
+    const reducers = options.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'reducers'
+    );
+    const reducerMap = reducers && unwrapExpression(reducers.initializer);
+    return {
+      library: library.library,
+      kind,
+      sliceName: getStringProperty(options, 'name'),
+      actions:
+        reducerMap && ts.isObjectLiteralExpression(reducerMap)
+          ? reducerMap.properties.flatMap((p) => (p.name && ts.isIdentifier(p.name) ? [p.name.text] : []))
+          : [],
+    };
+  }
+  return {
+    library: library.library,
+    kind,
+    actions: library.library === 'zustand' ? getZustandActions(call) : [],
+  };
+}
+
+/**
+ * Reads and writes of shared state in `code`:
+ * - React context: `useContext(X)` / `use(X)` read, `<X.Provider>` writes
+ * - Jotai: `useAtomValue(a)` reads, `useSetAtom(a)` writes, `useAtom(a)` both
+ * - Zustand (`zustandStores`: local store name -> its actions): calling the store
+ *   hook reads (writes when selecting an action), `store.setState()` writes
+ * - Redux: `useSelector((state) => state.<sliceName>...)` or a selector reads,
+ *   `dispatch(action())` writes
+ */
+export function findStateUses(code: string, zustandStores: Map<string, string[]>): StateUse[] {
+  const uses: StateUse[] = [];
+
+  for (const match of code.matchAll(/\buse(?:Context)?\s*\(\s*(\w+)\s*\)/g)) {
+    uses.push({ library: 'react', mode: 'read', name: match[1] });
+  }
+  for (const match of code.matchAll(/<(\w+)\.Provider\b/g)) {
+    uses.push({ library: 'react', mode: 'write', name: match[1] });
+  }
+
+  for (const match of code.matchAll(/\b(useAtom|useAtomValue|useSetAtom)\s*\(\s*(\w+)/g)) {
+    if (match[1] !== 'useSetAtom') uses.push({ library: 'jotai', mode: 'read', name: match[2] });
+    if (match[1] !== 'useAtomValue') uses.push({ library: 'jotai', mode: 'write', name: match[2] });
+  }
+
+  for (const [localName, actions] of zustandStores) {
+    const name = escapeRegExp(localName);
+    if (new RegExp(`\\b${name}\\s*\\.\\s*setState\\s*\\(`).test(code)) {
+      uses.push({ library: 'zustand', mode: 'write', name: localName });
+    }
+    for (const call of code.matchAll(
+      new RegExp(`\\b${name}\\s*(?:\\.\\s*getState\\s*\\(\\s*\\)\\s*\\.\\s*(\\w+)|\\(\\s*(?:\\(?\\s*(\\w+)[^)=]*\\)?\\s*=>\\s*\\2\\s*\\.\\s*(\\w+))?)`, 'g')
+    )) {
+      const field = call[1] ?? call[3];
+      if (field === undefined) {
+        // Whole-store hook: writes when one of the store's actions is called
+        uses.push({ library: 'zustand', mode: 'read', name: localName });
+        if (actions.some((action) => new RegExp(`\\b${escapeRegExp(action)}\\s*\\(`).test(code))) {
+          uses.push({ library: 'zustand', mode: 'write', name: localName });
+        }
+      } else {
+        uses.push({ library: 'zustand', mode: actions.includes(field) ? 'write' : 'read', name: localName });
+      }
+    }
+  }
+
+  for (const match of code.matchAll(
+    /\buse\w*Selector\s*\(\s*(?:\(?\s*(\w+)[^)=]*\)?\s*=>\s*\1\s*\.\s*(\w+)|(\w+)\s*\))/g
+  )) {
+    uses.push({ library: 'redux', mode: 'read', ...(match[2] ? { sliceName: match[2] } : { name: match[3] }) });
+  }
+  for (const match of code.matchAll(/\bdispatch\s*\(\s*([\w.]+)\s*\(/g)) {
+    const [head, ...rest] = match[1].split('.');
+    const action = rest.length > 0 ? rest[rest.length - 1] : head;
+    uses.push({ library: 'redux', mode: 'write', name: head, action });
+  }
+  return uses;
+}
+
+/** Function-valued fields of the object a Zustand creator returns, through middleware like `devtools(persist(...))` */
+function getZustandActions(call: ts.CallExpression): string[] {
+  for (const arg of call.arguments) {
+    const expression = unwrapExpression(arg);
+    if (ts.isCallExpression(expression)) {
+      const nested = getZustandActions(expression);
+      if (nested.length > 0) return nested;
+      continue;
+    }
+    if (!ts.isArrowFunction(expression) && !ts.isFunctionExpression(expression)) continue;
+
+    let state: ts.Expression | undefined;
+    if (!ts.isBlock(expression.body)) {
+      state = unwrapExpression(expression.body);
+    } else {
+      const returned = expression.body.statements.find(ts.isReturnStatement)?.expression;
+      state = returned && unwrapExpression(returned);
+    }
+    if (!state || !ts.isObjectLiteralExpression(state)) continue;
+    return state.properties.flatMap((p) => {
+      if (!p.name || !ts.isIdentifier(p.name)) return [];
+      const isFunction =
+        ts.isMethodDeclaration(p) || (ts.isPropertyAssignment(p) && !!unwrapFunction(unwrapExpression(p.initializer)));
+      return isFunction ? [p.name.text] : [];
+    });
+  }
+  return [];
+}
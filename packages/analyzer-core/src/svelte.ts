@@ -0,0 +1,76 @@
+import * as ts from 'typescript';
+import { FoundEndpoint, toRoutePath } from './routes';
+import { getBindingNames, getCallName, hasModifier, unwrapExpression, unwrapFunction } from './syntax';
+
+/**
+ * Svelte and SvelteKit: component props, the route a `src/routes` file serves,
+ * and the form actions a page's server module exposes.
+ */
+
+export interface SvelteKitRoute {
+  kind: 'page' | 'layout' | 'server';
+  /** `+page.ts` / `+layout.server.ts`: `load` (and form `actions`) rather than the component */
+  data: boolean;
+  route: string;
+}
+
+/** `src/routes/blog/[slug]/+page.svelte` -> page at `/blog/[slug]` */
+export function getSvelteKitRoute(filePath: string): SvelteKitRoute | undefined {
+  const match = filePath.match(/(?:^|\/)src\/routes\/((?:[^/]+\/)*)\+(page|layout|server)(?:\.server)?\.(svelte|[jt]s)$/);
+  if (!match) return undefined;
+  return {
+    kind: match[2] as SvelteKitRoute['kind'],
+    data: match[3] !== 'svelte' && match[2] !== 'server',
+    route: toRoutePath(match[1].split('/').filter(Boolean)),
+  };
+}
+
+/** Props from `export let` (Svelte 4) or `let { ... } = $props()` (Svelte 5) in a component's script */
+export function getSvelteProps(sourceFile: ts.SourceFile): string[] {
+  const props: string[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    const isExportLet =
+      hasModifier(statement, ts.SyntaxKind.ExportKeyword) &&
+      !!(statement.declarationList.flags & ts.NodeFlags.Let);
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer && unwrapExpression(declaration.initializer);
+      const isRunesProps =
+        !!initializer && ts.isCallExpression(initializer) && getCallName(initializer) === '$props';
+      if (isExportLet || isRunesProps) props.push(...getBindingNames(declaration.name));
+    }
+  }
+  return props;
+}
+
+/**
+ * `export const actions = { default: ..., create: ... }` in `+page.server.ts`:
+ * POST endpoints at the page's route, named ones at `route?/name`.
+ */
+export function findFormActions(sourceFile: ts.SourceFile, route: string): FoundEndpoint[] {
+  const found: FoundEndpoint[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement) || !hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue;
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer && unwrapExpression(declaration.initializer);
+      if (!ts.isIdentifier(declaration.name) || declaration.name.text !== 'actions') continue;
+      if (!initializer || !ts.isObjectLiteralExpression(initializer)) continue;
+      for (const action of initializer.properties) {
+        if (!action.name || !ts.isIdentifier(action.name)) continue;
+        const fn = ts.isMethodDeclaration(action)
+          ? action
+          : ts.isPropertyAssignment(action)
+            ? unwrapFunction(unwrapExpression(action.initializer))
+            : undefined;
+        found.push({
+          method: 'POST',
+          route: action.name.text === 'default' ? route : `${route}?/${action.name.text}`,
+          node: action,
+          bodyStart: fn?.body?.getStart(sourceFile),
+          exported: true,
+        });
+      }
+    }
+  }
+  return found;
+}
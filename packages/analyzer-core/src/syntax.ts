@@ -0,0 +1,282 @@
+import * as ts from 'typescript';
+
+/**
+ * Syntax-tree helpers shared by the analyzer and the framework modules: reading
+ * declarations, imports, decorators and modifiers off a parsed file.
+ */
+
+export interface TopLevelFunction {
+  name: string;
+  /** Statement (or declarator, for multi-declarator statements) spanning the function */
+  declaration: ts.Node;
+  fn: ts.FunctionLikeDeclaration;
+}
+
+/**
+ * Top-level function-like declarations: `function Foo() {}`, `const Foo = () => {}`,
+ * `const Foo = function () {}` and `const Foo = memo(() => ...)` / `forwardRef(...)`.
+ */
+export function getTopLevelFunctions(sourceFile: ts.SourceFile): TopLevelFunction[] {
+  const result: TopLevelFunction[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      result.push({ name: statement.name.text, declaration: statement, fn: statement });
+      continue;
+    }
+    if (!ts.isVariableStatement(statement)) continue;
+
+    const declarations = statement.declarationList.declarations;
+    for (const decl of declarations) {
+      if (!ts.isIdentifier(decl.name) || !decl.initializer) continue;
+      const fn = unwrapFunction(decl.initializer);
+      if (!fn) continue;
+      result.push({
+        name: decl.name.text,
+        declaration: declarations.length === 1 ? statement : decl,
+        fn,
+      });
+    }
+  }
+  return result;
+}
+
+export function getDefaultExportName(sourceFile: ts.SourceFile): string | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) return statement.expression.text;
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+      statement.name &&
+      hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+    ) {
+      return statement.name.text;
+    }
+  }
+  return undefined;
+}
+
+/** Module specifier a local name is imported from, if any */
+export function getImportSpecifier(sourceFile: ts.SourceFile, localName: string): string | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    if (getImportClauseNames(statement.importClause).includes(localName)) {
+      return statement.moduleSpecifier.text;
+    }
+  }
+  return undefined;
+}
+
+/** Name a local import binds in its source module (`'default'` for default imports) */
+export function getImportedName(sourceFile: ts.SourceFile, localName: string): string | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const clause = statement.importClause;
+    if (clause.name?.text === localName) return 'default';
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      const element = clause.namedBindings.elements.find((e) => e.name.text === localName);
+      if (element) return (element.propertyName ?? element.name).text;
+    }
+  }
+  return undefined;
+}
+
+export function getDecorators(node: ts.Node): readonly ts.Decorator[] | undefined {
+  return ts.canHaveDecorators(node) ? ts.getDecorators(node) : undefined;
+}
+
+/** The `@Name(...)` decorator call on a class or member */
+export function getDecorator(node: ts.Node, name: string): ts.CallExpression | undefined {
+  for (const decorator of getDecorators(node) ?? []) {
+    if (ts.isCallExpression(decorator.expression) && getCallName(decorator) === name) {
+      return decorator.expression;
+    }
+  }
+  return undefined;
+}
+
+/** `Get` for `@Get(':id')`, `Injectable` for `@Injectable()` */
+export function getCallName(node: ts.Decorator | ts.CallExpression): string | undefined {
+  const expression = ts.isDecorator(node) ? node.expression : node;
+  const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+  return ts.isIdentifier(callee) ? callee.text : undefined;
+}
+
+export function isDeclaredInFile(sourceFile: ts.SourceFile, name: string): boolean {
+  return sourceFile.statements.some(
+    (statement) =>
+      ((ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isFunctionDeclaration(statement)) &&
+        statement.name?.text === name) ||
+      (ts.isVariableStatement(statement) &&
+        statement.declarationList.declarations.some((d) => getBindingNames(d.name).includes(name)))
+  );
+}
+
+export function getStringProperty(object: ts.ObjectLiteralExpression, name: string): string | undefined {
+  for (const property of object.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name &&
+      ts.isStringLiteralLike(property.initializer)
+    ) {
+      return property.initializer.text;
+    }
+  }
+  return undefined;
+}
+
+/** `export default function Page()`, `export default async () => {}`, `export default handler` */
+export function getDefaultExportFunction(
+  sourceFile: ts.SourceFile
+): { declaration: ts.Node; fn: ts.FunctionLikeDeclaration } | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+      return { declaration: statement, fn: statement };
+    }
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const fn = unwrapFunction(unwrapExpression(statement.expression));
+      if (fn) return { declaration: statement, fn };
+    }
+  }
+
+  const name = getDefaultExportName(sourceFile);
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) {
+      return { declaration: statement, fn: statement };
+    }
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const d of statement.declarationList.declarations) {
+      const fn = d.initializer && unwrapFunction(unwrapExpression(d.initializer));
+      if (fn && ts.isIdentifier(d.name) && d.name.text === name) return { declaration: statement, fn };
+    }
+  }
+  return undefined;
+}
+
+export function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (ts.isVariableDeclaration(node)) {
+    // Declarators carry no modifiers; they live on the enclosing statement
+    return hasModifier(node.parent.parent, kind);
+  }
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === kind);
+}
+
+export function getBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  const names: string[] = [];
+  for (const element of name.elements) {
+    if (!ts.isOmittedExpression(element)) names.push(...getBindingNames(element.name));
+  }
+  return names;
+}
+
+export function getImportClauseNames(importClause: ts.ImportClause): string[] {
+  const names: string[] = [];
+  if (importClause.name) names.push(importClause.name.text);
+  const bindings = importClause.namedBindings;
+  if (bindings && ts.isNamedImports(bindings)) {
+    for (const element of bindings.elements) names.push(element.name.text);
+  } else if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push(bindings.name.text);
+  }
+  return names;
+}
+
+/**
+ * Returns the function behind a variable initializer, looking through
+ * `memo(...)`, `forwardRef(...)` and their `React.` forms.
+ */
+export function unwrapFunction(initializer: ts.Expression): ts.FunctionLikeDeclaration | undefined {
+  if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+    return initializer;
+  }
+  if (ts.isCallExpression(initializer)) {
+    const callee = ts.isPropertyAccessExpression(initializer.expression)
+      ? initializer.expression.name.text
+      : ts.isIdentifier(initializer.expression)
+        ? initializer.expression.text
+        : undefined;
+    const [firstArg] = initializer.arguments;
+    if ((callee === 'memo' || callee === 'forwardRef') && firstArg) {
+      return unwrapFunction(firstArg);
+    }
+  }
+  return undefined;
+}
+
+export function getOpenBraceStart(sourceFile: ts.SourceFile, node: ts.Node): number | undefined {
+  return node
+    .getChildren(sourceFile)
+    .find((child) => child.kind === ts.SyntaxKind.OpenBraceToken)
+    ?.getStart(sourceFile);
+}
+
+/** Strips `as`/`satisfies`/parentheses wrappers from an expression */
+export function unwrapExpression(expression: ts.Expression): ts.Expression {
+  if (
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isParenthesizedExpression(expression) ||
+    ts.isTypeAssertionExpression(expression)
+  ) {
+    return unwrapExpression(expression.expression);
+  }
+  return expression;
+}
+
+/**
+ * A named function-like declaration: `function f() {}`, `const f = () => {}`,
+ * a method or a function-valued class property.
+ */
+export function getNamedFunction(
+  node: ts.Node
+): { name: string; fn: ts.FunctionLikeDeclaration; declaration: ts.Node } | undefined {
+  if (ts.isFunctionDeclaration(node) && node.name && node.body) {
+    return { name: node.name.text, fn: node, declaration: node };
+  }
+  if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name) && node.body) {
+    return { name: node.name.text, fn: node, declaration: node };
+  }
+  if (ts.isVariableStatement(node) && node.declarationList.declarations.length === 1) {
+    const named = getNamedFunction(node.declarationList.declarations[0]);
+    return named && { ...named, declaration: node };
+  }
+  if ((ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) && node.initializer) {
+    const fn = unwrapFunction(node.initializer);
+    if (fn && (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name))) {
+      return { name: node.name.text, fn, declaration: node };
+    }
+  }
+  return undefined;
+}
+
+/** Variable or class property a `new X()` is assigned to: `const queue = new Queue()` */
+export function getAssignedName(node: ts.Expression): string | undefined {
+  let current: ts.Node = node;
+  while (ts.isAsExpression(current.parent) || ts.isParenthesizedExpression(current.parent)) current = current.parent;
+  const parent = current.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyDeclaration(parent)) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    const left = parent.left;
+    return ts.isIdentifier(left) ? left.text : ts.isPropertyAccessExpression(left) ? left.name.text : undefined;
+  }
+  return undefined;
+}
+
+/** 1-based line and 0-based column of an offset into `text` */
+export function getTextPosition(text: string, offset: number): { line: number; column: number } {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return { line: text.slice(0, lineStart).split('\n').length, column: offset - lineStart };
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
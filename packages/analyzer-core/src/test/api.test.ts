@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { findGraphqlResolvers, findGraphqlTemplates } from '../graphql';
+import { findTrpcProcedures, getTrpcClientPattern } from '../trpc';
+import { analyzeFixture, assertEdge, findEdges, getNode, parseSource } from './fixture';
+
+suite('tRPC and GraphQL', () => {
+  test('procedures and resolvers become endpoints called by client usages', async () => {
+    const result = await analyzeFixture({
+      'src/server.ts': [
+        "import { initTRPC } from '@trpc/server';",
+        '',
+        'const t = initTRPC.create();',
+        '',
+        'export const userRouter = t.router({',
+        '  getUser: t.procedure.query(() => ({ id: 1 })),',
+        '});',
+        '',
+        'export const appRouter = t.router({',
+        '  user: userRouter,',
+        '});',
+      ].join('\n'),
+      'src/schema.ts': [
+        "import { gql } from 'graphql-tag';",
+        '',
+        'export const typeDefs = gql`',
+        '  type Query {',
+        '    posts: [Post]',
+        '  }',
+        '`;',
+        '',
+        'export const resolvers = {',
+        '  Query: {',
+        '    posts: () => [],',
+        '  },',
+        '};',
+      ].join('\n'),
+      'src/trpc.ts': 'export const trpc: any = {};\n',
+      'src/client.tsx': [
+        "import { trpc } from './trpc';",
+        "import { gql, useQuery } from '@apollo/client';",
+        '',
+        'const GET_POSTS = gql`',
+        '  query GetPosts {',
+        '    posts {',
+        '      id',
+        '    }',
+        '  }',
+        '`;',
+        '',
+        'export function Profile() {',
+        '  const user = trpc.user.getUser.useQuery();',
+        '  const posts = useQuery(GET_POSTS);',
+        '  return <div>{user.data?.id}{posts.data}</div>;',
+        '}',
+      ].join('\n'),
+    });
+
+    const procedure = getNode(result, 'src/server.ts::QUERY getUser');
+    assert.deepStrictEqual(
+      [procedure.node_type, procedure.metadata?.api, procedure.metadata?.route],
+      ['endpoint', 'trpc', 'user.getUser'],
+    );
+    const resolver = getNode(result, 'src/schema.ts::QUERY posts');
+    assert.deepStrictEqual([resolver.node_type, resolver.metadata?.api], ['endpoint', 'graphql']);
+
+    assertEdge(result, 'calls', 'src/client.tsx::Profile', 'src/server.ts::QUERY getUser');
+    assertEdge(result, 'calls', 'src/client.tsx::Profile', 'src/schema.ts::QUERY posts');
+  });
+
+  test('client calls link only the procedures whose full route they name', async () => {
+    const result = await analyzeFixture({
+      'src/server.ts': [
+        "import { initTRPC } from '@trpc/server';",
+        '',
+        'const t = initTRPC.create();',
+        '',
+        'export const userRouter = t.router({',
+        '  getUser: t.procedure.query(() => ({ id: 1 })),',
+        '  getUserList: t.procedure.query(() => []),',
+        '  rename: t.procedure.mutation(() => true),',
+        '});',
+        '',
+        'export const appRouter = t.router({',
+        '  user: userRouter,',
+        '});',
+      ].join('\n'),
+      'src/trpc.ts': 'export const trpc: any = {};\n',
+      'src/Users.tsx': [
+        "import { trpc } from './trpc';",
+        '',
+        'export function Users({ db }: { db: any }) {',
+        '  const list = trpc.user.getUserList.useQuery();',
+        '  const rename = trpc.user.rename.useMutation();',
+        "  db.query('select 1');",
+        '  return <ul onClick={() => rename.mutate()}>{list.data}</ul>;',
+        '}',
+      ].join('\n'),
+    });
+
+    const called = findEdges(result, 'calls', 'src/Users.tsx::Users').map((e) => e.target_stable_id).sort();
+    assert.deepStrictEqual(called, ['src/server.ts::MUTATION rename', 'src/server.ts::QUERY getUserList']);
+  });
+});
+
+suite('tRPC and GraphQL scanning', () => {
+  test('router objects yield procedures by dotted route and mounts for routers they reference', () => {
+    const sourceFile = parseSource(
+      [
+        'export const appRouter = router({',
+        '  health: publicProcedure.query(() => "ok"),',
+        '  user: router({ rename: protectedProcedure.input(z.string()).mutation(({ input }) => input) }),',
+        '  post: postRouter,',
+        '  comments,',
+        '  helper: makeHelper(),',
+        '});',
+        'const merged = mergeRouters(appRouter, adminRouter);',
+        'const notARouter = router("x");',
+      ].join('\n'),
+      'src/server/router.ts'
+    );
+    const { endpoints, mounts } = findTrpcProcedures(sourceFile, 'src/server/router.ts');
+
+    assert.deepStrictEqual(
+      endpoints.map((e) => [e.method, e.route, e.exported, e.routerId]),
+      [
+        ['QUERY', 'health', true, 'src/server/router.ts#appRouter'],
+        ['MUTATION', 'user.rename', true, 'src/server/router.ts#appRouter'],
+      ]
+    );
+    assert.deepStrictEqual(
+      mounts.map((m) => `${m.parentId} ${m.prefix} ${m.childName}`),
+      [
+        'src/server/router.ts#appRouter post postRouter',
+        'src/server/router.ts#appRouter comments comments',
+        'src/server/router.ts#merged  appRouter',
+        'src/server/router.ts#merged  adminRouter',
+      ]
+    );
+  });
+
+  test('client pattern matches every route a proxy call ends with, and only known methods', () => {
+    const pattern = getTrpcClientPattern(['user.getUser', 'getUser']);
+    const routes = (code: string) => Array.from(code.matchAll(pattern), (match) => match[1]);
+
+    assert.deepStrictEqual(routes('api.user.getUser.useQuery({ id })'), ['user.getUser', 'getUser']);
+    assert.deepStrictEqual(routes('client.getUser.mutate()'), ['getUser']);
+    assert.deepStrictEqual(routes('api.user.getUser.invalidate()'), []);
+  });
+
+  test('resolver maps and @Resolver classes yield fields; other objects do not', () => {
+    const sourceFile = parseSource(
+      [
+        'export const resolvers = {',
+        '  Query: { user: (_: unknown, args: { id: string }) => args.id, posts() { return []; } },',
+        '  User: { name: () => "n" },',
+        '};',
+        '@Resolver()',
+        'export class UserResolver {',
+        "  @Mutation(() => User, { name: 'renameUser' })",
+        '  rename() {}',
+        '  helper() {}',
+        '}',
+        'class Plain {',
+        '  @Query() user() {}',
+        '}',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      findGraphqlResolvers(sourceFile).map((e) => [e.method, e.route, e.exported]),
+      [
+        ['QUERY', 'user', false],
+        ['QUERY', 'posts', false],
+        ['MUTATION', 'renameUser', true],
+      ]
+    );
+  });
+
+  test('gql templates keep their offset and the constant holding them', () => {
+    const text = [
+      'export const GET_USER = gql`query GetUser { user { id } }`;',
+      'const schema = graphql`type Query { me: User }`;',
+      'run(gql`mutation { logout }`);',
+      'const html = css`body {}`;',
+    ].join('\n');
+    const templates = findGraphqlTemplates(parseSource(text));
+
+    assert.deepStrictEqual(
+      templates.map((t) => [t.constName, t.document]),
+      [
+        ['GET_USER', 'query GetUser { user { id } }'],
+        ['schema', 'type Query { me: User }'],
+        [undefined, 'mutation { logout }'],
+      ]
+    );
+    assert.strictEqual(text.slice(templates[0].offset, templates[0].offset + 5), 'query');
+  });
+});
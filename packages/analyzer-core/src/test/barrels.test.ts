@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, findEdges } from './fixture';
+
+const files = {
+  'src/components/Button.tsx': 'export function Button() {\n  return <button />;\n}\n',
+  'src/components/Card.tsx': 'export function Card() {\n  return <div />;\n}\n',
+  'src/components/index.ts': "export { Button } from './Button';\nexport * from './Card';\n",
+  'src/App.tsx': [
+    "import { Button, Card } from './components';",
+    '',
+    'export function App() {',
+    '  return <Card><Button /></Card>;',
+    '}',
+  ].join('\n'),
+};
+
+suite('Barrel modules', () => {
+  test('usages resolve through re-exports to the declaring file', async () => {
+    const result = await analyzeFixture(files);
+
+    assertEdge(result, 'imports', 'src/App.tsx', 'src/components/index.ts');
+    assert.strictEqual(
+      assertEdge(result, 'imports', 'src/components/index.ts', 'src/components/Card.tsx').metadata?.reexport,
+      true
+    );
+    assertEdge(result, 'uses', 'src/App.tsx::App', 'src/components/Button.tsx::Button');
+    assertEdge(result, 'uses', 'src/App.tsx::App', 'src/components/Card.tsx::Card');
+  });
+
+  test('collapseBarrels removes the barrel and imports the re-exported files directly', async () => {
+    const result = await analyzeFixture(files, { collapseBarrels: true });
+
+    assert.ok(!result.nodes.some((n) => n.file_path === 'src/components/index.ts'));
+    assert.ok(
+      !result.edges.some(
+        (e) => e.source_stable_id === 'src/components/index.ts' || e.target_stable_id === 'src/components/index.ts'
+      )
+    );
+    for (const [target, name] of [
+      ['src/components/Button.tsx', 'Button'],
+      ['src/components/Card.tsx', 'Card'],
+    ]) {
+      const edge = assertEdge(result, 'imports', 'src/App.tsx', target);
+      assert.deepStrictEqual(edge.metadata, { specifier: './components', names: [name], via: 'src/components/index.ts' });
+    }
+    assert.strictEqual(findEdges(result, 'uses', 'src/App.tsx::App').length, 2);
+  });
+});
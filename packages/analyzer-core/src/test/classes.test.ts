@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, getNode } from './fixture';
+
+suite('Classes and methods', () => {
+  test('methods become nodes defined by their class, and calls target the method', async () => {
+    const result = await analyzeFixture({
+      'src/service.ts': [
+        'export class UserService {',
+        '  static create() {',
+        '    return new UserService();',
+        '  }',
+        '  async load(id: string) {',
+        '    return this.fetchRow(id);',
+        '  }',
+        '  private fetchRow(id: string) {',
+        '    return { id };',
+        '  }',
+        '}',
+      ].join('\n'),
+      'src/app.ts': [
+        "import { UserService } from './service';",
+        '',
+        'export function start() {',
+        "  return UserService.create().load('1');",
+        '}',
+      ].join('\n'),
+    });
+
+    const create = getNode(result, 'src/service.ts::UserService.create');
+    assert.strictEqual(create.node_type, 'method');
+    assert.deepStrictEqual(create.metadata, { class: 'UserService', visibility: 'public', static: true, async: false });
+    assert.strictEqual(getNode(result, 'src/service.ts::UserService.fetchRow').metadata?.visibility, 'private');
+    assert.strictEqual(getNode(result, 'src/service.ts::UserService.load').metadata?.async, true);
+
+    for (const method of ['create', 'load', 'fetchRow']) {
+      assertEdge(result, 'defines', 'src/service.ts::UserService', `src/service.ts::UserService.${method}`);
+    }
+    assertEdge(result, 'calls', 'src/app.ts::start', 'src/service.ts::UserService.create');
+  });
+});
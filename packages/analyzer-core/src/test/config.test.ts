@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { findConfigReads, findPythonConfigReads, parseConfigDeclarations } from '../config';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+suite('Configuration keys', () => {
+  test('env and VS Code settings reads are cross-referenced with their declarations', async () => {
+    const result = await analyzeFixture({
+      'src/config.ts': [
+        "import * as vscode from 'vscode';",
+        '',
+        'export function loadApiKey() {',
+        "  return process.env.API_KEY ?? vscode.workspace.getConfiguration('monoid').get('geminiApiKey');",
+        '}',
+        '',
+        'export function loadPort() {',
+        '  return import.meta.env.VITE_PORT;',
+        '}',
+      ].join('\n'),
+      '.env.example': 'API_KEY=\nUNUSED_KEY=\n',
+      'package.json': JSON.stringify({
+        contributes: { configuration: { properties: { 'monoid.geminiApiKey': { type: 'string' } } } },
+      }),
+    });
+
+    assert.deepStrictEqual(getNode(result, 'config::env::API_KEY').metadata?.declaredIn, ['.env.example']);
+    assertEdge(result, 'references', 'src/config.ts::loadApiKey', 'config::env::API_KEY');
+    assertEdge(result, 'references', 'src/config.ts::loadApiKey', 'config::vscode::monoid.geminiApiKey');
+    assertEdge(result, 'references', 'src/config.ts::loadPort', 'config::env::VITE_PORT');
+
+    assert.strictEqual(getNode(result, 'config::env::VITE_PORT').metadata?.undeclared, true);
+    assert.strictEqual(getNode(result, 'config::env::UNUSED_KEY').metadata?.unused, true);
+  });
+
+  test('declarations in dependencies and build output are ignored', async () => {
+    const contributes = (key: string) =>
+      JSON.stringify({ contributes: { configuration: { properties: { [key]: { type: 'string' } } } } });
+    const result = await analyzeFixture({
+      'src/config.ts': 'export function loadApiKey() {\n  return process.env.API_KEY;\n}\n',
+      'node_modules/dep/package.json': contributes('dep.setting'),
+      '.next/standalone/package.json': contributes('app.setting'),
+      'coverage/.env.example': 'API_KEY=\n',
+    });
+
+    assert.deepStrictEqual(
+      result.nodes.filter((n) => n.metadata?.config).map((n) => n.stable_id),
+      ['config::env::API_KEY']
+    );
+    // With no .env declarations left, a read key isn't flagged as undeclared
+    assert.strictEqual(getNode(result, 'config::env::API_KEY').metadata?.undeclared, undefined);
+  });
+});
+
+suite('Configuration scanning', () => {
+  test('reads of env variables and VS Code settings, with their lines', () => {
+    const sourceFile = parseSource(
+      [
+        'const url = process.env.DATABASE_URL;',
+        "const { API_KEY, ['REGION']: region } = process.env;",
+        'const mode = import.meta.env.MODE + import.meta.env.VITE_TITLE;',
+        "const config = vscode.workspace.getConfiguration('monoid');",
+        "config.get('depth'); vscode.workspace.getConfiguration().has('editor.tabSize');",
+        "settings.get('notConfig'); env.PORT;",
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      findConfigReads(sourceFile, 'src/index.ts').map((r) => `${r.kind} ${r.key} ${r.line} ${r.source ?? '-'}`),
+      [
+        'env DATABASE_URL 1 process.env',
+        'env API_KEY 2 process.env',
+        'env VITE_TITLE 3 import.meta.env',
+        'vscode monoid.depth 5 -',
+        'vscode editor.tabSize 5 -',
+      ]
+    );
+    const python = ['import os', 'url = os.environ["DB"]', "key = os.getenv('KEY', 'x')", 'os.environ.copy()'].join('\n');
+    assert.deepStrictEqual(
+      findPythonConfigReads(python, 'app.py').map((r) => `${r.key} ${r.line}`),
+      ['DB 2', 'KEY 3']
+    );
+  });
+
+  test('declarations in env templates and package.json contributions', () => {
+    assert.deepStrictEqual(
+      parseConfigDeclarations('.env.example', '# comment\nDATABASE_URL=\nexport API_KEY=abc\n=broken\n').map(
+        (d) => `${d.kind} ${d.key} ${d.line}`
+      ),
+      ['env DATABASE_URL 2', 'env API_KEY 3']
+    );
+
+    const manifest = JSON.stringify(
+      { name: 'ext', contributes: { configuration: { properties: { 'monoid.depth': { type: 'number' } } } } },
+      null,
+      2
+    );
+    assert.deepStrictEqual(
+      parseConfigDeclarations('packages/ext/package.json', manifest).map((d) => `${d.kind} ${d.key} ${d.line}`),
+      ['vscode monoid.depth 6']
+    );
+    assert.deepStrictEqual(parseConfigDeclarations('package.json', '{"name": "app"}'), []);
+    assert.throws(() => parseConfigDeclarations('package.json', '{ not json'));
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { findDrizzleTables, findTableQueries } from '../database';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+suite('Database tables', () => {
+  test('Prisma, Drizzle and SQL tables with read and write access edges', async () => {
+    const result = await analyzeFixture({
+      'prisma/schema.prisma': 'model User {\n  id    Int    @id\n  email String\n}\n',
+      'migrations/001_init.sql': 'CREATE TABLE code_nodes (\n  id serial primary key\n);\n',
+      'src/db.ts': [
+        "import { pgTable, serial } from 'drizzle-orm/pg-core';",
+        '',
+        "export const posts = pgTable('posts', {",
+        "  id: serial('id'),",
+        '});',
+      ].join('\n'),
+      'src/prisma.ts': 'export const prisma: any = {};\n',
+      'src/client.ts': 'export const db: any = {};\n',
+      'src/users.ts': [
+        "import { prisma } from './prisma';",
+        "import { db } from './client';",
+        "import { posts } from './db';",
+        '',
+        'export async function listUsers() {',
+        '  return prisma.user.findMany();',
+        '}',
+        '',
+        'export async function createUser(email: string) {',
+        '  return prisma.user.create({ data: { email } });',
+        '}',
+        '',
+        'export async function listPosts() {',
+        '  return db.select().from(posts);',
+        '}',
+        '',
+        'export async function saveNode(supabase: any) {',
+        "  return supabase.from('code_nodes').insert({});",
+        '}',
+      ].join('\n'),
+    });
+
+    assert.deepStrictEqual(getNode(result, 'table::User').metadata?.columns, ['id', 'email']);
+    assert.strictEqual(getNode(result, 'table::posts').metadata?.database, 'drizzle');
+    assert.deepStrictEqual(getNode(result, 'table::code_nodes').metadata?.declaredIn, ['migrations/001_init.sql']);
+
+    const access = (source: string, table: string) => assertEdge(result, 'uses', `src/users.ts::${source}`, table).metadata;
+    assert.deepStrictEqual(access('listUsers', 'table::User'), { database: 'prisma', read: true });
+    assert.deepStrictEqual(access('createUser', 'table::User'), { database: 'prisma', write: true });
+    assert.deepStrictEqual(access('listPosts', 'table::posts'), { database: 'drizzle', read: true });
+    assert.deepStrictEqual(access('saveNode', 'table::code_nodes'), { database: 'supabase', write: true });
+  });
+});
+
+suite('Database scanning', () => {
+  test('Drizzle tables need a table factory imported from drizzle-orm', () => {
+    const sourceFile = parseSource(
+      [
+        "import { pgTable, serial, text } from 'drizzle-orm/pg-core';",
+        "import { sqliteTable } from './fake';",
+        "export const users = pgTable('users', { id: serial('id'), name: text('name') });",
+        "const notes = sqliteTable('notes', { id: 0 });",
+        'const dynamic = pgTable(tableName, {});',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      findDrizzleTables(sourceFile).map(({ name, variable, columns }) => ({ name, variable, columns })),
+      [{ name: 'users', variable: 'users', columns: ['id', 'name'] }]
+    );
+  });
+
+  test('queries name the table the way each client refers to it, leaving ambiguous shapes to resolution', () => {
+    const sourceFile = parseSource(
+      [
+        'await prisma.user.findMany();',
+        'await db.insert(users).values(row);',
+        'await db.query.posts.findFirst();',
+        "await supabase.from('public.orders').upsert(order);",
+        "await supabase.from('orders');",
+        'list.count();',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(
+      findTableQueries(sourceFile).map((q) => [q.database, q.mode, q.name ?? q.table?.getText(sourceFile)]),
+      [
+        ['prisma', 'read', 'user'],
+        ['drizzle', 'write', 'users'],
+        // `db.query.posts` also has the shape of a Prisma accessor; only one resolves to a table
+        ['prisma', 'read', 'posts'],
+        ['drizzle', 'read', 'posts'],
+        ['drizzle', 'read', "'public.orders'"],
+        ['supabase', 'write', 'orders'],
+        ['drizzle', 'read', "'orders'"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, getNode } from './fixture';
+
+suite('Event channels', () => {
+  test('emitters and postMessage types link publishers and subscribers through channel nodes', async () => {
+    const result = await analyzeFixture({
+      'src/bus.ts': [
+        "import { EventEmitter } from 'events';",
+        '',
+        'export const bus = new EventEmitter();',
+        '',
+        'export function notifySaved() {',
+        "  bus.emit('saved', 1);",
+        '}',
+        '',
+        'export function listenSaved() {',
+        "  bus.on('saved', () => {});",
+        '}',
+      ].join('\n'),
+      'src/webview.ts': [
+        'declare const vscode: any;',
+        '',
+        'export function openFile() {',
+        "  vscode.postMessage({ type: 'openFile', filePath: 'a.ts' });",
+        '}',
+      ].join('\n'),
+      'src/panel.ts': [
+        'export function handleMessages(webview: any) {',
+        '  webview.onDidReceiveMessage((message: any) => {',
+        '    switch (message.type) {',
+        "      case 'openFile':",
+        '        break;',
+        '    }',
+        '  });',
+        '}',
+      ].join('\n'),
+    });
+
+    assert.strictEqual(getNode(result, 'channel::event::saved').metadata?.channel, 'event');
+    const edge = (source: string, channel: string) => assertEdge(result, 'uses', source, channel).metadata;
+    assert.deepStrictEqual(edge('src/bus.ts::notifySaved', 'channel::event::saved'), {
+      channel: 'event',
+      publishes: true,
+    });
+    assert.deepStrictEqual(edge('src/bus.ts::listenSaved', 'channel::event::saved'), {
+      channel: 'event',
+      subscribes: true,
+    });
+    assert.strictEqual(edge('src/webview.ts::openFile', 'channel::message::openFile')?.publishes, true);
+    assert.strictEqual(edge('src/panel.ts::handleMessages', 'channel::message::openFile')?.subscribes, true);
+  });
+
+  test('commented-out calls and code quoted in strings are not channels; private fields are', async () => {
+    const result = await analyzeFixture({
+      'src/store.ts': [
+        "import { EventEmitter } from 'events';",
+        '',
+        'const bus = new EventEmitter();',
+        '',
+        'export class Store {',
+        "  #notify = () => bus.emit('stored');",
+        '}',
+        '',
+        'export function listen() {',
+        "  bus.on('stored', () => {});",
+        "  // bus.emit('commented');",
+        "  /* bus.emit('blocked'); */",
+        "  bus.on('commented', () => {});",
+        '}',
+        '',
+        'export function describeUsage() {',
+        "  return `bus.emit('quoted')`;",
+        '}',
+      ].join('\n'),
+    });
+
+    assert.strictEqual(assertEdge(result, 'uses', 'src/store.ts::Store.#notify', 'channel::event::stored').metadata?.publishes, true);
+    for (const name of ['commented', 'blocked', 'quoted']) {
+      assert.ok(!result.nodes.some((node) => node.stable_id === `channel::event::${name}`), name);
+    }
+  });
+
+  test('scripts inlined in webview HTML post messages, also through a helper', async () => {
+    const result = await analyzeFixture({
+      'src/panel.ts': [
+        'export function renderPanel(nodeId: string) {',
+        '  return `<html><body><script>',
+        '    const vscode = acquireVsCodeApi();',
+        '    function revealMessage(id) {',
+        "      return { type: 'reveal', id };",
+        '    }',
+        "    // vscode.postMessage({ type: 'ghost' });",
+        '    vscode.postMessage(revealMessage(${JSON.stringify(nodeId)}));',
+        '  </script></body></html>`;',
+        '}',
+        '',
+        'export function onMessage(message: { type: string }) {',
+        "  if (message.type === 'reveal') return true;",
+        "  return message.type === 'ghost';",
+        '}',
+      ].join('\n'),
+    });
+
+    assert.strictEqual(assertEdge(result, 'uses', 'src/panel.ts::renderPanel', 'channel::message::reveal').metadata?.publishes, true);
+    assert.strictEqual(assertEdge(result, 'uses', 'src/panel.ts::onMessage', 'channel::message::reveal').metadata?.subscribes, true);
+    assert.ok(!result.nodes.some((node) => node.stable_id === 'channel::message::ghost'));
+  });
+});
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { suite, test } from 'node:test';
+import { analyzeDirectory } from '../index';
+import type { Extractor, LocalNode } from '../types';
+import { analyzeFixture, assertEdge, getNode, writeFixture } from './fixture';
+
+/** Turns `defineJob('name', fn)` calls into nodes linked from their module */
+const jobExtractor: Extractor = {
+  name: 'jobs',
+  filePattern: /\.ts$/,
+  extract({ filePath, sourceFile, ts }) {
+    const nodes: LocalNode[] = [];
+    const visit = (node: import('typescript').Node): void => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === 'defineJob' &&
+        node.arguments[0] &&
+        ts.isStringLiteral(node.arguments[0])
+      ) {
+        const line = sourceFile!.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+        nodes.push({
+          stable_id: `${filePath}::job:${node.arguments[0].text}`,
+          name: node.arguments[0].text,
+          node_type: 'function',
+          file_path: filePath,
+          start_line: line,
+          end_line: line,
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile!);
+    return {
+      nodes,
+      edges: nodes.map((n) => ({ source_stable_id: filePath, target_stable_id: n.stable_id, edge_type: 'defines' as const })),
+    };
+  },
+};
+
+suite('Custom extractors', () => {
+  test('extractor nodes and edges are added and tagged with the extractor name', async () => {
+    const result = await analyzeFixture(
+      { 'src/jobs.ts': "declare function defineJob(name: string, fn: () => void): void;\n\ndefineJob('nightly', () => {});\n" },
+      { extractors: [jobExtractor] }
+    );
+
+    const job = getNode(result, 'src/jobs.ts::job:nightly');
+    assert.deepStrictEqual([job.start_line, job.metadata?.extractor], [3, 'jobs']);
+    assert.strictEqual(assertEdge(result, 'defines', 'src/jobs.ts', job.stable_id).metadata?.extractor, 'jobs');
+  });
+
+  test('node file paths are normalized to root-relative forward-slash paths', async () => {
+    const result = await analyzeFixture(
+      { 'src/jobs.ts': 'export function runJobs() {\n  return 1;\n}\n' },
+      {
+        extractors: [
+          {
+            name: 'paths',
+            extract: ({ filePath }) => ({
+              nodes: [
+                ['dotted', './src/jobs.ts'],
+                ['windows', 'src\\jobs.ts'],
+              ].map(([name, nodeFilePath]) => ({
+                stable_id: `${filePath}::${name}`,
+                name,
+                node_type: 'function' as const,
+                file_path: nodeFilePath,
+                start_line: 1,
+                end_line: 1,
+              })),
+            }),
+          },
+        ],
+      }
+    );
+
+    assert.strictEqual(getNode(result, 'src/jobs.ts::dotted').file_path, 'src/jobs.ts');
+    assert.strictEqual(getNode(result, 'src/jobs.ts::windows').file_path, 'src/jobs.ts');
+  });
+
+  test('a throwing extractor is logged without stopping the analysis', async () => {
+    const messages: string[] = [];
+    const result = await analyzeFixture(
+      { 'src/a.ts': 'export function a() {\n  return 1;\n}\n' },
+      {
+        extractors: [
+          {
+            name: 'broken',
+            extract() {
+              throw new Error('boom');
+            },
+          },
+        ],
+        logger: (message) => messages.push(message),
+      }
+    );
+
+    getNode(result, 'src/a.ts::a');
+    assert.ok(messages.some((m) => m.includes('ERROR in extractor broken on src/a.ts: Error: boom')));
+  });
+
+  test('a file removed during the analysis is logged and skipped', async () => {
+    const files = {
+      'src/a.ts': 'export function alpha() {\n  return 1;\n}\n',
+      'src/b.ts': 'export function beta() {\n  return 2;\n}\n',
+    };
+    const root = writeFixture(files);
+    const messages: string[] = [];
+    let removed: string | undefined;
+    try {
+      const result = await analyzeDirectory(root, undefined, {
+        extractors: [
+          {
+            name: 'remover',
+            // Deletes the file analyzed second after the glob listed it
+            extract({ filePath }) {
+              removed ??= Object.keys(files).find((file) => file !== filePath)!;
+              fs.rmSync(path.join(root, removed), { force: true });
+            },
+          },
+        ],
+        logger: (message) => messages.push(message),
+      });
+
+      assert.ok(messages.some((m) => m.startsWith(`ERROR analyzing ${removed}: Error: ENOENT`)));
+      assert.strictEqual(result.nodes.filter((n) => n.node_type === 'function').length, 1);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('workspace extractors load from .monoid/extractors only when enabled', async () => {
+    const files = {
+      'src/a.ts': 'export const a = 1;\n',
+      '.monoid/extractors/marker.js': [
+        'module.exports = {',
+        "  name: 'marker',",
+        '  extract: ({ filePath }) => ({',
+        "    nodes: [{ stable_id: filePath + '::marker', name: 'marker', node_type: 'constant', start_line: 1, end_line: 1 }],",
+        '  }),',
+        '};',
+      ].join('\n'),
+    };
+
+    const enabled = await analyzeFixture(files, { loadWorkspaceExtractors: true });
+    assert.strictEqual(getNode(enabled, 'src/a.ts::marker').metadata?.extractor, 'marker');
+
+    const disabled = await analyzeFixture(files);
+    assert.ok(!disabled.nodes.some((n) => n.stable_id === 'src/a.ts::marker'));
+  });
+});
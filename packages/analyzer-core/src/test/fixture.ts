@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { analyzeDirectory } from '../index';
+import type { AnalysisResult, AnalyzerOptions, EdgeType, LocalEdge, LocalNode } from '../types';
+
+/** Writes `files` (root-relative path -> contents) into `root`, a new temporary directory by default */
+export function writeFixture(files: Record<string, string>, root?: string): string {
+  const dir = root ?? fs.mkdtempSync(path.join(os.tmpdir(), 'monoid-analyzer-'));
+  for (const [file, contents] of Object.entries(files)) {
+    const fullPath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, contents);
+  }
+  return dir;
+}
+
+/** Writes `files` into a temporary directory, analyzes it and removes it again */
+export async function analyzeFixture(
+  files: Record<string, string>,
+  options?: AnalyzerOptions
+): Promise<AnalysisResult> {
+  const root = writeFixture(files);
+  try {
+    return await analyzeDirectory(root, undefined, { logger: () => {}, ...options });
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
+
+/** Parses `text` as the file at `filePath`, for testing the syntax-tree scanners directly */
+export function parseSource(text: string, filePath = 'src/index.ts'): ts.SourceFile {
+  const scriptKind = /\.tsx$/.test(filePath) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+export function getNode(result: AnalysisResult, stableId: string): LocalNode {
+  const node = result.nodes.find((n) => n.stable_id === stableId);
+  assert.ok(node, `expected node ${stableId}, got ${result.nodes.map((n) => n.stable_id).join(', ')}`);
+  return node;
+}
+
+export function findEdges(
+  result: AnalysisResult,
+  edgeType: EdgeType,
+  source?: string,
+  target?: string
+): LocalEdge[] {
+  return result.edges.filter(
+    (e) =>
+      e.edge_type === edgeType &&
+      (source === undefined || e.source_stable_id === source) &&
+      (target === undefined || e.target_stable_id === target)
+  );
+}
+
+export function assertEdge(result: AnalysisResult, edgeType: EdgeType, source: string, target: string): LocalEdge {
+  const [edge] = findEdges(result, edgeType, source, target);
+  assert.ok(edge, `expected ${edgeType} edge ${source} -> ${target}`);
+  return edge;
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { suite, test } from 'node:test';
+import { CoreAnalyzer } from '../index';
+import type { Granularity } from '../types';
+import { analyzeFixture, assertEdge, findEdges, getNode, writeFixture } from './fixture';
+
+const files = {
+  'src/format.ts': 'export function format(x: number) {\n  return String(x);\n}\n',
+  'src/lib.ts': [
+    "import { format } from './format';",
+    '',
+    'function helperFn(x: number) {',
+    '  return x * 2;',
+    '}',
+    '',
+    'export function untestedThing() {',
+    '  function double(y: number) {',
+    '    return helperFn(y);',
+    '  }',
+    '  const wrap = (z: number) => double(z);',
+    '  return format(wrap(1));',
+    '}',
+    '',
+    'class Internal {',
+    '  run() {',
+    '    return helperFn(1);',
+    '  }',
+    '}',
+  ].join('\n'),
+};
+
+async function analyzeLib(granularity: Granularity) {
+  const result = await analyzeFixture(files, { granularity });
+  return { result, ids: result.nodes.filter((n) => n.file_path === 'src/lib.ts').map((n) => n.stable_id).sort() };
+}
+
+suite('Granularity', () => {
+  test('exported-only keeps exported declarations', async () => {
+    const { ids } = await analyzeLib('exported-only');
+    assert.deepStrictEqual(ids, ['src/lib.ts', 'src/lib.ts::untestedThing']);
+  });
+
+  test('all-top-level adds private declarations, linked by same-file calls', async () => {
+    const { result, ids } = await analyzeLib('all-top-level');
+    assert.strictEqual(ids.length, 5);
+    assert.strictEqual(getNode(result, 'src/lib.ts::helperFn').metadata?.private, true);
+    assert.strictEqual(getNode(result, 'src/lib.ts::Internal').metadata?.private, true);
+
+    assertEdge(result, 'calls', 'src/lib.ts::untestedThing', 'src/lib.ts::helperFn');
+    assertEdge(result, 'calls', 'src/lib.ts::Internal.run', 'src/lib.ts::helperFn');
+    assertEdge(result, 'uses', 'src/lib.ts::untestedThing', 'src/format.ts::format');
+  });
+
+  test('all-including-nested adds nested functions, and calls come from the innermost one', async () => {
+    const { result, ids } = await analyzeLib('all-including-nested');
+    assert.strictEqual(ids.length, 7);
+    const nested = getNode(result, 'src/lib.ts::untestedThing.double');
+    assert.deepStrictEqual(nested.metadata, {
+      exported: false,
+      private: true,
+      nested: true,
+      parent: 'src/lib.ts::untestedThing',
+    });
+
+    assertEdge(result, 'defines', 'src/lib.ts::untestedThing', 'src/lib.ts::untestedThing.double');
+    assertEdge(result, 'calls', 'src/lib.ts::untestedThing.double', 'src/lib.ts::helperFn');
+    assertEdge(result, 'calls', 'src/lib.ts::untestedThing.wrap', 'src/lib.ts::untestedThing.double');
+    assertEdge(result, 'calls', 'src/lib.ts::untestedThing', 'src/lib.ts::untestedThing.wrap');
+    assert.deepStrictEqual(findEdges(result, 'calls', 'src/lib.ts::untestedThing', 'src/lib.ts::helperFn'), []);
+  });
+
+  test('a re-run picks up calls changed since the last run', async () => {
+    const root = writeFixture(files);
+    try {
+      const analyzer = new CoreAnalyzer(root, undefined, { granularity: 'all-top-level', logger: () => {} });
+      const before = await analyzer.analyze();
+      assertEdge(before, 'calls', 'src/lib.ts::untestedThing', 'src/lib.ts::helperFn');
+
+      const lib = files['src/lib.ts'].replace('return helperFn(y);', 'return y;');
+      writeFixture({ 'src/lib.ts': lib }, root);
+      const after = await analyzer.analyze();
+      assert.deepStrictEqual(findEdges(after, 'calls', 'src/lib.ts::untestedThing', 'src/lib.ts::helperFn'), []);
+      assertEdge(after, 'calls', 'src/lib.ts::Internal.run', 'src/lib.ts::helperFn');
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge } from './fixture';
+
+suite('Heritage edges', () => {
+  test('extends and implements resolve to the imported declarations or external placeholders', async () => {
+    const result = await analyzeFixture({
+      'src/base.ts': 'export class Repository {}\nexport interface Disposable {\n  dispose(): void;\n}\n',
+      'src/users.ts': [
+        "import { EventEmitter } from 'events';",
+        "import { Repository as Base, Disposable } from './base';",
+        '',
+        'export class UserRepository extends Base implements Disposable {',
+        '  dispose() {}',
+        '}',
+        '',
+        'export class Bus extends EventEmitter {}',
+      ].join('\n'),
+    });
+
+    assertEdge(result, 'extends', 'src/users.ts::UserRepository', 'src/base.ts::Repository');
+    assertEdge(result, 'implements', 'src/users.ts::UserRepository', 'src/base.ts::Disposable');
+    assertEdge(result, 'extends', 'src/users.ts::Bus', 'external::events::EventEmitter');
+  });
+});
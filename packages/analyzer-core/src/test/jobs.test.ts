@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { findJobs, findQueueAdds, parseVercelCrons } from '../jobs';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+suite('Background jobs', () => {
+  test('queue workers and cron schedules become handlers linked from producers', async () => {
+    const result = await analyzeFixture({
+      'src/queue.ts': [
+        "import { Queue, Worker } from 'bullmq';",
+        "import cron from 'node-cron';",
+        '',
+        "export const emailQueue = new Queue('emails');",
+        '',
+        'export async function sendWelcome(to: string) {',
+        "  await emailQueue.add('welcome', { to });",
+        '}',
+        '',
+        "export const emailWorker = new Worker('emails', async (job) => {",
+        '  return job.data;',
+        '});',
+        '',
+        "cron.schedule('0 * * * *', () => {});",
+      ].join('\n'),
+      'app/api/cleanup/route.ts': 'export async function GET() {\n  return Response.json({});\n}\n',
+      'vercel.json': JSON.stringify({ crons: [{ path: '/api/cleanup', schedule: '0 0 * * *' }] }),
+    });
+
+    const worker = getNode(result, 'src/queue.ts::worker emails');
+    assert.deepStrictEqual([worker.node_type, worker.metadata?.queue], ['handler', 'emails']);
+    const enqueue = assertEdge(result, 'calls', 'src/queue.ts::sendWelcome', worker.stable_id);
+    assert.deepStrictEqual(enqueue.metadata, { queue: 'emails', jobName: 'welcome' });
+
+    assert.strictEqual(getNode(result, 'src/queue.ts::cron 0 * * * *').metadata?.schedule, '0 * * * *');
+    assertEdge(result, 'calls', 'vercel.json::cron /api/cleanup', 'app/api/cleanup/route.ts::GET /api/cleanup');
+  });
+});
+
+suite('Background job scanning', () => {
+  test('workers, crons and queues are recognized by the package they are imported from', () => {
+    const sourceFile = parseSource(
+      [
+        "import { Queue, Worker } from 'bullmq';",
+        "import Bull from 'bull';",
+        "import cron from 'node-cron';",
+        "import { Worker as LocalWorker } from './worker';",
+        "export const emails = new Queue('emails');",
+        "const images = new Bull('images');",
+        "new Worker('emails', sendEmail);",
+        "images.process('resize', 2, async (job) => job.data);",
+        "cron.schedule('0 * * * *', () => {});",
+        "new LocalWorker('ignored', run);",
+        "other.schedule('* * * * *', run);",
+      ].join('\n')
+    );
+    const { jobs, queues } = findJobs(sourceFile);
+
+    assert.deepStrictEqual(queues, [
+      { holder: 'emails', queue: 'emails' },
+      { holder: 'images', queue: 'images' },
+    ]);
+    assert.deepStrictEqual(
+      jobs.map((job) => [job.name, job.metadata, job.processor?.getText(sourceFile)]),
+      [
+        ['worker emails', { job: 'bullmq', queue: 'emails' }, 'sendEmail'],
+        ['worker images resize', { job: 'bull', queue: 'images', jobName: 'resize' }, 'async (job) => job.data'],
+        ['cron 0 * * * *', { job: 'node-cron', schedule: '0 * * * *' }, '() => {}'],
+      ]
+    );
+  });
+
+  test('queue adds and Vercel crons', () => {
+    const sourceFile = parseSource(
+      [
+        'async function signUp() {',
+        "  await emails.add('welcome', { to });",
+        '  await this.queues.images.addBulk(jobs);',
+        '  set.add(1);',
+        '}',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(
+      findQueueAdds(sourceFile).map((add) => [add.receiver.getText(sourceFile), add.line, add.jobName]),
+      [
+        ['emails', 2, 'welcome'],
+        ['this.queues.images', 3, undefined],
+        ['set', 4, undefined],
+      ]
+    );
+
+    const vercel = JSON.stringify(
+      { crons: [{ path: '/api/cleanup', schedule: '0 5 * * *' }, { path: '/api/broken' }] },
+      null,
+      2
+    );
+    assert.deepStrictEqual(parseVercelCrons(vercel), [{ path: '/api/cleanup', schedule: '0 5 * * *', line: 4 }]);
+    assert.deepStrictEqual(parseVercelCrons('{ "functions": {} }'), []);
+    assert.throws(() => parseVercelCrons('{ crons: [] }'));
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge } from './fixture';
+
+suite('Dynamic imports', () => {
+  test('React.lazy, next/dynamic and await import() produce lazy edges', async () => {
+    const result = await analyzeFixture({
+      'src/Heavy.tsx': 'export default function Heavy() {\n  return <div />;\n}\n',
+      'src/Chart.tsx': 'export function Chart() {\n  return <svg />;\n}\n',
+      'src/utils.ts': 'export function formatReport(x: number) {\n  return String(x);\n}\n',
+      'src/App.tsx': [
+        "import { lazy } from 'react';",
+        "import dynamic from 'next/dynamic';",
+        '',
+        "const Heavy = lazy(() => import('./Heavy'));",
+        "const Chart = dynamic(() => import('./Chart').then((m) => m.Chart));",
+        '',
+        'export function App() {',
+        '  return <><Heavy /><Chart /></>;',
+        '}',
+        '',
+        'export async function exportReport() {',
+        "  const { formatReport } = await import('./utils');",
+        '  return formatReport(1);',
+        '}',
+      ].join('\n'),
+    });
+
+    for (const target of ['src/Heavy.tsx', 'src/Chart.tsx', 'src/utils.ts']) {
+      assert.strictEqual(assertEdge(result, 'imports', 'src/App.tsx', target).metadata?.lazy, true);
+    }
+    assert.strictEqual(assertEdge(result, 'uses', 'src/App.tsx::App', 'src/Heavy.tsx::Heavy').metadata?.lazy, true);
+    assert.strictEqual(assertEdge(result, 'uses', 'src/App.tsx::App', 'src/Chart.tsx::Chart').metadata?.lazy, true);
+    assert.strictEqual(
+      assertEdge(result, 'uses', 'src/App.tsx::exportReport', 'src/utils.ts::formatReport').metadata?.lazy,
+      true
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, findEdges, getNode } from './fixture';
+
+suite('Module nodes', () => {
+  test('each file is a module with imports edges between files and exports edges to its symbols', async () => {
+    const result = await analyzeFixture({
+      'src/math.ts': 'export function add(a: number, b: number) {\n  return a + b;\n}\n',
+      'src/index.ts': "import { add } from './math';\nimport { readFile } from 'fs';\n\nexport function total() {\n  return add(1, 2);\n}\n",
+    });
+
+    const math = getNode(result, 'src/math.ts');
+    assert.strictEqual(math.node_type, 'module');
+    assert.deepStrictEqual([math.start_line, math.end_line], [1, 4]);
+
+    assertEdge(result, 'imports', 'src/index.ts', 'src/math.ts');
+    assertEdge(result, 'exports', 'src/math.ts', 'src/math.ts::add');
+    assertEdge(result, 'exports', 'src/index.ts', 'src/index.ts::total');
+    // Packages are not modules of the project
+    assert.deepStrictEqual(
+      findEdges(result, 'imports', 'src/index.ts').map((e) => e.target_stable_id),
+      ['src/math.ts']
+    );
+  });
+});
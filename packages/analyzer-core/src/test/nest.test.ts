@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import * as ts from 'typescript';
+import { findNestEndpoints, getInjectedDependencies } from '../nest';
+import { analyzeFixture, assertEdge, findEdges, getNode, parseSource } from './fixture';
+
+suite('NestJS', () => {
+  test('controller routes, guards, providers and constructor injection', async () => {
+    const result = await analyzeFixture({
+      'src/auth.guard.ts': [
+        "import { Injectable } from '@nestjs/common';",
+        '',
+        '@Injectable()',
+        'export class AuthGuard {',
+        '  canActivate() {',
+        '    return true;',
+        '  }',
+        '}',
+      ].join('\n'),
+      'src/users.controller.ts': [
+        "import { Controller, Get, Injectable, Param, UseGuards } from '@nestjs/common';",
+        "import { AuthGuard } from './auth.guard';",
+        '',
+        '@Injectable()',
+        'export class UsersService {',
+        '  find(id: string) {',
+        '    return { id };',
+        '  }',
+        '}',
+        '',
+        "@Controller('users')",
+        '@UseGuards(AuthGuard)',
+        'export class UsersController {',
+        '  constructor(private readonly users: UsersService) {}',
+        '',
+        "  @Get(':id')",
+        "  getUser(@Param('id') id: string) {",
+        '    return this.users.find(id);',
+        '  }',
+        '}',
+      ].join('\n'),
+    });
+
+    const endpoint = getNode(result, 'src/users.controller.ts::GET /users/:id');
+    assert.strictEqual(endpoint.node_type, 'endpoint');
+    assert.deepStrictEqual(
+      { method: endpoint.metadata?.method, route: endpoint.metadata?.route },
+      { method: 'GET', route: '/users/:id' },
+    );
+
+    const guard = getNode(result, 'src/auth.guard.ts::AuthGuard');
+    assert.strictEqual(guard.node_type, 'middleware');
+    assert.strictEqual(guard.metadata?.kind, 'guard');
+    assert.strictEqual(getNode(result, 'src/users.controller.ts::UsersService').metadata?.provider, true);
+
+    const steps = findEdges(result, 'routes_to', endpoint.stable_id).sort(
+      (a, b) => Number(a.metadata?.order) - Number(b.metadata?.order),
+    );
+    assert.deepStrictEqual(
+      steps.map((e) => [e.target_stable_id, e.metadata?.role, e.metadata?.scope]),
+      [
+        ['src/auth.guard.ts::AuthGuard', 'middleware', 'controller'],
+        ['src/users.controller.ts::UsersController.getUser', 'handler', 'route'],
+      ],
+    );
+    assertEdge(result, 'depends_on', 'src/users.controller.ts::UsersController', 'src/users.controller.ts::UsersService');
+  });
+});
+
+suite('NestJS scanning', () => {
+  test('controller routes join the controller path and list enhancers before the handler', () => {
+    const sourceFile = parseSource(
+      [
+        "@Controller({ path: 'orders' })",
+        '@UseGuards(AuthGuard)',
+        'export class OrdersController {',
+        '  constructor(private readonly orders: OrdersService) {}',
+        '  private readonly audit = inject(AuditLog);',
+        '',
+        "  @Post([':id/cancel', 'cancel/:id'])",
+        '  @UseInterceptors(new LoggingInterceptor())',
+        '  cancel() {}',
+        '',
+        '  helper() {}',
+        '}',
+      ].join('\n')
+    );
+    const endpoints = findNestEndpoints(sourceFile);
+
+    assert.deepStrictEqual(
+      endpoints.map((e) => [e.method, e.route, e.exported]),
+      [['POST', '/orders/:id/cancel', true]]
+    );
+    assert.deepStrictEqual(
+      endpoints[0].steps?.map((step) => `${step.scope} ${step.kind ?? step.role} ${step.name}`),
+      ['controller guard AuthGuard', 'route interceptor LoggingInterceptor', 'route handler OrdersController.cancel']
+    );
+    const controller = sourceFile.statements.find(ts.isClassDeclaration)!;
+    assert.deepStrictEqual(getInjectedDependencies(sourceFile, controller), ['OrdersService', 'AuditLog']);
+  });
+});
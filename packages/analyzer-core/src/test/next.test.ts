@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import * as fs from 'fs';
+import { findPagesApiHandlers, findServerActions, getNextRoute } from '../next';
+import { analyzeFixture, assertEdge, getNode, parseSource, writeFixture } from './fixture';
+
+suite('Next.js routing', () => {
+  test('app-router pages, layouts, route handlers and server actions', async () => {
+    const result = await analyzeFixture({
+      'src/app/(shop)/layout.tsx': [
+        'export default function ShopLayout({ children }: { children: any }) {',
+        '  return <main>{children}</main>;',
+        '}',
+      ].join('\n'),
+      'src/app/(shop)/blog/[slug]/page.tsx': [
+        'export default function BlogPost({ params }: { params: { slug: string } }) {',
+        '  return <article>{params.slug}</article>;',
+        '}',
+      ].join('\n'),
+      'src/app/(shop)/api/posts/route.ts': 'export async function GET() {\n  return Response.json([]);\n}\n',
+      'src/app/(shop)/actions.ts': "'use server';\n\nexport async function savePost(data: FormData) {\n  return data;\n}\n",
+    });
+
+    const page = getNode(result, 'src/app/(shop)/blog/[slug]/page.tsx::BlogPost');
+    assert.deepStrictEqual(
+      [page.node_type, page.metadata?.route, page.metadata?.routeKind],
+      ['component', '/blog/[slug]', 'page'],
+    );
+    assert.strictEqual(getNode(result, 'src/app/(shop)/layout.tsx::ShopLayout').metadata?.routeKind, 'layout');
+    assertEdge(result, 'uses', 'src/app/(shop)/layout.tsx::ShopLayout', 'src/app/(shop)/blog/[slug]/page.tsx::BlogPost');
+
+    assert.strictEqual(getNode(result, 'src/app/(shop)/api/posts/route.ts::GET /api/posts').node_type, 'endpoint');
+    const action = getNode(result, 'src/app/(shop)/actions.ts::savePost');
+    assert.deepStrictEqual([action.node_type, action.metadata?.serverAction], ['endpoint', true]);
+  });
+
+  test('pages/api default exports become endpoints in Next.js projects only', async () => {
+    const files = {
+      'pages/api/hello.ts': [
+        'export default function handler(req: any, res: any) {',
+        "  if (req.method === 'POST') return res.json({ ok: true });",
+        '  res.json({});',
+        '}',
+      ].join('\n'),
+    };
+
+    const next = await analyzeFixture({ ...files, 'next.config.js': 'module.exports = {};\n' });
+    assert.strictEqual(getNode(next, 'pages/api/hello.ts::POST /api/hello').metadata?.route, '/api/hello');
+    assertEdge(next, 'routes_to', 'pages/api/hello.ts::POST /api/hello', 'pages/api/hello.ts::handler');
+
+    const other = await analyzeFixture(files);
+    assert.ok(!other.nodes.some((n) => n.node_type === 'endpoint'));
+  });
+});
+
+suite('Next.js scanning', () => {
+  test('file paths map to routes, with pages/ only counting inside a Next.js project', () => {
+    const root = writeFixture({
+      'web/package.json': JSON.stringify({ dependencies: { next: '14.0.0' } }),
+      'docs/package.json': JSON.stringify({ dependencies: { vite: '5.0.0' } }),
+    });
+    try {
+      const route = (filePath: string) => getNextRoute(filePath, root, new Map());
+      assert.deepStrictEqual(route('web/app/(shop)/products/[id]/page.tsx'), {
+        router: 'app',
+        kind: 'page',
+        route: '/products/[id]',
+      });
+      assert.strictEqual(route('web/app/_components/page.tsx'), undefined);
+      assert.deepStrictEqual(route('web/pages/blog/index.tsx'), { router: 'pages', kind: 'page', route: '/blog' });
+      assert.deepStrictEqual(route('web/pages/_app.tsx'), { router: 'pages', kind: 'layout', route: '/' });
+      assert.strictEqual(route('docs/pages/intro.tsx'), undefined);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('API handlers split by the methods they branch on; server actions need "use server"', () => {
+    const api = parseSource(
+      [
+        'export default function handler(req: any, res: any) {',
+        "  if (req.method === 'POST') return res.status(201).end();",
+        '  switch (req.method) {',
+        "    case 'delete':",
+        '      return res.end();',
+        '  }',
+        '}',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(
+      findPagesApiHandlers(api, '/api/items').map((e) => `${e.method} ${e.route}`),
+      ['POST /api/items', 'DELETE /api/items']
+    );
+
+    const actions = parseSource(
+      [
+        'export async function save() {',
+        "  'use server';",
+        '}',
+        'export async function load() {}',
+        'const remove = async () => {',
+        "  'use server';",
+        '};',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(
+      findServerActions(actions).map((e) => [e.name, e.exported, e.serverAction]),
+      [
+        ['save', true, true],
+        ['remove', false, true],
+      ]
+    );
+  });
+});
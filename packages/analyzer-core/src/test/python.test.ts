@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import {
+  getDjangoUrlPatterns,
+  getPythonBases,
+  getPythonRouterMount,
+  getPythonRouters,
+  getPythonRoutes,
+  parsePythonModule,
+} from '../python';
+import { analyzeFixture, assertEdge, getNode } from './fixture';
+
+suite('Python', () => {
+  test('modules, classes, functions and FastAPI / Django routes', async () => {
+    const result = await analyzeFixture({
+      'api/main.py': [
+        'from fastapi import FastAPI',
+        '',
+        'app = FastAPI()',
+        '',
+        '',
+        'class UserService:',
+        '    def find(self, user_id):',
+        '        return user_id',
+        '',
+        '',
+        '@app.get("/users/{user_id}")',
+        'def read_user(user_id: int):',
+        '    return UserService().find(user_id)',
+      ].join('\n'),
+      'blog/views.py': 'def post_list(request):\n    return None\n',
+      'blog/urls.py': [
+        'from django.urls import path',
+        'from . import views',
+        '',
+        'urlpatterns = [',
+        '    path("posts/", views.post_list),',
+        ']',
+      ].join('\n'),
+    });
+
+    const pythonNodes = result.nodes.filter((n) => n.file_path.endsWith('.py'));
+    assert.ok(pythonNodes.length > 0);
+    assert.ok(pythonNodes.every((n) => n.language === 'python'));
+
+    assert.strictEqual(getNode(result, 'api/main.py').node_type, 'module');
+    assert.strictEqual(getNode(result, 'api/main.py::UserService').node_type, 'class');
+    assertEdge(result, 'defines', 'api/main.py::UserService', 'api/main.py::UserService.find');
+
+    const endpoint = getNode(result, 'api/main.py::GET /users/{user_id}');
+    assert.deepStrictEqual([endpoint.node_type, endpoint.start_line], ['endpoint', 11]);
+
+    assert.strictEqual(getNode(result, 'blog/urls.py::ALL /posts').metadata?.route, '/posts');
+    assertEdge(result, 'imports', 'blog/urls.py', 'blog/views.py');
+    assertEdge(result, 'routes_to', 'blog/urls.py::ALL /posts', 'blog/views.py::post_list');
+  });
+
+  test('only Python migrations are skipped', async () => {
+    const result = await analyzeFixture({
+      'blog/migrations/0001_initial.py': 'def forwards(apps, schema_editor):\n    pass\n',
+      'db/migrations/001_init.sql': 'CREATE TABLE code_nodes (\n  id serial primary key\n);\n',
+      'db/migrations/002_seed.ts': [
+        'export async function seedNodes(supabase: any) {',
+        "  await supabase.from('code_nodes').insert({});",
+        '}',
+      ].join('\n'),
+    });
+
+    assert.ok(!result.nodes.some((n) => n.file_path.startsWith('blog/migrations/')));
+    const edge = assertEdge(result, 'uses', 'db/migrations/002_seed.ts::seedNodes', 'table::code_nodes');
+    assert.strictEqual(edge.metadata?.write, true);
+  });
+});
+
+suite('Python route scanning', () => {
+  test('FastAPI and Flask routers, decorated routes and mounts', () => {
+    const module = parsePythonModule(
+      [
+        'from fastapi import APIRouter, FastAPI',
+        'app = FastAPI()',
+        'router = APIRouter(prefix="/users")',
+        'bp = Blueprint("admin", __name__, url_prefix="/admin")',
+        'settings = dict(prefix="/nope")',
+        '',
+        '@router.get("/{user_id}")',
+        'def read_user(user_id): ...',
+        '',
+        '@bp.route(rule="/", methods=["GET", "post"])',
+        'def dashboard(): ...',
+        '',
+        'app.include_router(users.router, prefix="/v1")',
+        'app.mount("/static", static_app)',
+        'app.add_middleware(CORSMiddleware)',
+      ].join('\n')
+    );
+
+    assert.deepStrictEqual(Object.fromEntries(getPythonRouters(module)), { app: '', router: '/users', bp: '/admin' });
+    assert.deepStrictEqual(
+      module.definitions.flatMap(getPythonRoutes).map((r) => `${r.receiver} ${r.method} ${r.route}`),
+      ['router GET /{user_id}', 'bp GET /', 'bp POST /']
+    );
+    assert.deepStrictEqual(module.statements.map(getPythonRouterMount).filter(Boolean), [
+      { parent: 'app', childName: 'users.router', prefix: '/v1' },
+      { parent: 'app', childName: 'static_app', prefix: '/static' },
+    ]);
+  });
+
+  test('Django urlpatterns and class bases', () => {
+    const [patterns, other] = parsePythonModule(
+      [
+        'urlpatterns = [',
+        '    path("posts/<int:pk>/", views.post_detail, name="post"),',
+        '    re_path(r"^archive/$", ArchiveView.as_view()),',
+        '    path("api/", include("api.urls")),',
+        ']',
+        'paths = [path("ignored/", views.nope)]',
+      ].join('\n')
+    ).statements;
+
+    assert.deepStrictEqual(getDjangoUrlPatterns(patterns), [
+      { call: 'path', pattern: 'posts/<int:pk>/', route: 'posts/<int:pk>/', line: 2, handler: 'views.post_detail' },
+      { call: 're_path', pattern: '^archive/$', route: 'archive/', line: 3, handler: 'ArchiveView' },
+      { call: 'path', pattern: 'api/', route: 'api/', line: 4, include: 'api.urls' },
+    ]);
+    assert.deepStrictEqual(getDjangoUrlPatterns(other), []);
+    assert.deepStrictEqual(getPythonBases('models.Model, Generic[T], object, metaclass=ABCMeta'), [
+      'models.Model',
+      'Generic',
+    ]);
+  });
+});
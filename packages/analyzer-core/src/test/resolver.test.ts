@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, findEdges } from './fixture';
+
+const button = (label: string) => `export function Button() {\n  return <button>${label}</button>;\n}\n`;
+
+suite('Import resolution', () => {
+  test('same-named exports link to the file each import resolves to', async () => {
+    const result = await analyzeFixture({
+      'src/a/Button.tsx': button('a'),
+      'src/b/Button.tsx': button('b'),
+      'src/PageA.tsx': "import { Button } from './a/Button';\nexport function PageA() {\n  return <Button />;\n}\n",
+      'src/PageB.tsx': "import { Button } from './b/Button';\nexport function PageB() {\n  return <Button />;\n}\n",
+    });
+
+    assertEdge(result, 'uses', 'src/PageA.tsx::PageA', 'src/a/Button.tsx::Button');
+    assertEdge(result, 'uses', 'src/PageB.tsx::PageB', 'src/b/Button.tsx::Button');
+    assert.strictEqual(findEdges(result, 'uses', 'src/PageA.tsx::PageA', 'src/b/Button.tsx::Button').length, 0);
+  });
+
+  test('tsconfig paths, baseUrl, the `@/` alias and index files resolve', async () => {
+    const result = await analyzeFixture({
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '#ui/*': ['src/components/*'] } },
+      }),
+      'src/components/Button.tsx': button('ui'),
+      'src/lib/api/index.ts': 'export function fetchUsers() {\n  return [];\n}\n',
+      'src/lib/format.ts': 'export function formatName(name: string) {\n  return name.trim();\n}\n',
+      'src/App.tsx': [
+        "import { Button } from '#ui/Button';",
+        "import { fetchUsers } from '@/lib/api';",
+        "import { formatName } from 'src/lib/format';",
+        '',
+        'export function App() {',
+        "  fetchUsers().map(() => formatName(''));",
+        '  return <Button />;',
+        '}',
+      ].join('\n'),
+    });
+
+    assertEdge(result, 'uses', 'src/App.tsx::App', 'src/components/Button.tsx::Button');
+    assertEdge(result, 'uses', 'src/App.tsx::App', 'src/lib/api/index.ts::fetchUsers');
+    assertEdge(result, 'uses', 'src/App.tsx::App', 'src/lib/format.ts::formatName');
+    assertEdge(result, 'imports', 'src/App.tsx', 'src/lib/api/index.ts');
+  });
+});
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { findHttpRoutes, routeMatches } from '../routes';
+import type { AnalysisResult } from '../types';
+import { analyzeFixture, findEdges, getNode, parseSource } from './fixture';
+
+/** `routes_to` targets of an endpoint in execution order */
+function routeSteps(result: AnalysisResult, endpointId: string): string[] {
+  return findEdges(result, 'routes_to', endpointId)
+    .sort((a, b) => Number(a.metadata?.order) - Number(b.metadata?.order))
+    .map((e) => e.target_stable_id);
+}
+
+suite('Express routes', () => {
+  test('route arguments become middleware and handler nodes linked in order', async () => {
+    const result = await analyzeFixture({
+      'src/auth.ts': 'export function requireUser(req: any, res: any, next: any) {\n  next();\n}\n',
+      'src/server.ts': [
+        "import express from 'express';",
+        "import cors from 'cors';",
+        "import { requireUser } from './auth';",
+        '',
+        'const app = express();',
+        'app.use(cors());',
+        '',
+        'function createUser(req: any, res: any) {',
+        '  res.json({});',
+        '}',
+        '',
+        "app.post('/users', requireUser, createUser);",
+      ].join('\n'),
+    });
+
+    const endpoint = getNode(result, 'src/server.ts::POST /users');
+    assert.strictEqual(endpoint.node_type, 'endpoint');
+    assert.deepStrictEqual(routeSteps(result, endpoint.stable_id), [
+      'external::cors::cors',
+      'src/auth.ts::requireUser',
+      'src/server.ts::createUser',
+    ]);
+    assert.strictEqual(getNode(result, 'src/auth.ts::requireUser').node_type, 'middleware');
+    assert.strictEqual(getNode(result, 'src/server.ts::createUser').node_type, 'handler');
+  });
+
+  test('mounted routers get the full path and the app middleware registered before the mount', async () => {
+    const result = await analyzeFixture({
+      'src/routes/users.ts': [
+        "import { Router } from 'express';",
+        '',
+        'const router = Router();',
+        'function getUser(req: any, res: any) {',
+        '  res.json({});',
+        '}',
+        "router.get('/:id', getUser);",
+        'export default router;',
+      ].join('\n'),
+      'src/server.ts': [
+        "import express from 'express';",
+        "import usersRouter from './routes/users';",
+        '',
+        'const app = express();',
+        'function auth(req: any, res: any, next: any) {',
+        '  next();',
+        '}',
+        'function audit(req: any, res: any, next: any) {',
+        '  next();',
+        '}',
+        'function late(req: any, res: any, next: any) {',
+        '  next();',
+        '}',
+        'app.use(auth);',
+        "app.use('/admin', audit);",
+        "app.use('/api', usersRouter);",
+        'app.use(late);',
+      ].join('\n'),
+    });
+
+    const endpoint = getNode(result, 'src/routes/users.ts::GET /:id');
+    assert.strictEqual(endpoint.name, 'GET /api/:id');
+    assert.strictEqual(endpoint.metadata?.route, '/api/:id');
+    assert.strictEqual(endpoint.metadata?.declaredRoute, '/:id');
+    assert.deepStrictEqual(routeSteps(result, endpoint.stable_id), [
+      'src/server.ts::auth',
+      'src/routes/users.ts::getUser',
+    ]);
+    assert.strictEqual(findEdges(result, 'routes_to', endpoint.stable_id)[0].metadata?.scope, 'app');
+  });
+});
+
+suite('HTTP route scanning', () => {
+  test('routes carry their middleware and handler names; mounts their prefix', () => {
+    const sourceFile = parseSource(
+      [
+        "import { Hono } from 'hono';",
+        '',
+        'const app = new Hono();',
+        'app.use(logger);',
+        "app.get('/health', (c) => c.text('ok'));",
+        "app.post('/users', validate(schema), createUser);",
+        "app.route('/admin', admin);",
+      ].join('\n'),
+      'src/app.ts'
+    );
+    const { endpoints, mounts } = findHttpRoutes(sourceFile, 'src/app.ts');
+
+    assert.deepStrictEqual(
+      endpoints.map((e) => [e.method, e.route, e.routerId]),
+      [
+        ['GET', '/health', 'src/app.ts#app'],
+        ['POST', '/users', 'src/app.ts#app'],
+      ]
+    );
+    assert.deepStrictEqual(
+      endpoints[1].steps?.map((step) => `${step.role} ${step.name}`),
+      ['middleware logger', 'middleware validate', 'handler createUser']
+    );
+    assert.deepStrictEqual(
+      mounts.map((m) => [m.prefix, m.childName]),
+      [
+        ['', 'logger'],
+        ['/admin', 'admin'],
+      ]
+    );
+  });
+
+  test('route patterns match concrete URLs segment by segment', () => {
+    assert.ok(routeMatches('/users/:id', '/users/42?tab=posts'));
+    assert.ok(routeMatches('/blog/[...slug]', '/blog/2024/hello'));
+    assert.ok(routeMatches('/items/{item_id}', '/items/7/'));
+    assert.ok(!routeMatches('/users/:id', '/users'));
+    assert.ok(!routeMatches('/users/:id', '/users/42/posts'));
+  });
+});
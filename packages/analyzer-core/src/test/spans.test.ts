@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import type { LocalNode } from '../types';
+import { analyzeFixture, getNode } from './fixture';
+
+/** `line:column-line:column` as shown in editors' status bars, columns 0-based */
+function span(node: LocalNode): string {
+  return `${node.start_line}:${node.start_column}-${node.end_line}:${node.end_column}`;
+}
+
+suite('Node spans', () => {
+  test('columns narrow nodes sharing a line to their own declaration', async () => {
+    const source = [
+      'export const a = () => 1, b = () => 2;',
+      '',
+      'export class Store {',
+      '  save() {',
+      '    return 1;',
+      '  }',
+      '}',
+    ].join('\n');
+    const result = await analyzeFixture({ 'src/a.ts': source });
+
+    const a = getNode(result, 'src/a.ts::a');
+    const b = getNode(result, 'src/a.ts::b');
+    assert.strictEqual(span(a), '1:13-1:24');
+    assert.strictEqual(span(b), '1:26-1:37');
+    // End columns are exclusive
+    const [line] = source.split('\n');
+    assert.strictEqual(line.slice(a.start_column, a.end_column), 'a = () => 1');
+    assert.strictEqual(line.slice(b.start_column, b.end_column), 'b = () => 2');
+
+    assert.strictEqual(span(getNode(result, 'src/a.ts::Store')), '3:0-7:1');
+    assert.strictEqual(span(getNode(result, 'src/a.ts::Store.save')), '4:2-6:3');
+  });
+});
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import * as ts from 'typescript';
+import { findStateUses, getStoreDefinition } from '../state';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+const files = {
+  'src/store.ts': [
+    "import { create } from 'zustand';",
+    '',
+    'export const useCounter = create((set: any) => ({',
+    '  count: 0,',
+    '  increment: () => set((s: any) => ({ count: s.count + 1 })),',
+    '}));',
+  ].join('\n'),
+  'src/Counter.tsx': [
+    "import { useCounter } from './store';",
+    '',
+    'export function Counter() {',
+    '  const count = useCounter((s: any) => s.count);',
+    '  const increment = useCounter((s: any) => s.increment);',
+    '  return <button onClick={increment}>{count}</button>;',
+    '}',
+  ].join('\n'),
+};
+
+suite('State stores', () => {
+  test('zustand selectors read and actions write the store', async () => {
+    const result = await analyzeFixture(files);
+
+    const store = getNode(result, 'src/store.ts::useCounter');
+    assert.deepStrictEqual([store.metadata?.state, store.metadata?.actions], ['zustand', ['increment']]);
+    const edge = assertEdge(result, 'uses', 'src/Counter.tsx::Counter', 'src/store.ts::useCounter');
+    assert.deepStrictEqual(edge.metadata, { state: 'zustand', read: true, write: true });
+  });
+
+  test('extractor nodes outside the analyzed files are dropped before the state scan', async () => {
+    const messages: string[] = [];
+    const result = await analyzeFixture(files, {
+      extractors: [
+        {
+          name: 'remote',
+          filePattern: /store\.ts$/,
+          extract: () => ({
+            nodes: [
+              {
+                stable_id: 'nonexistent/file.ts::remoteTask',
+                name: 'remoteTask',
+                node_type: 'function',
+                file_path: 'nonexistent/file.ts',
+                start_line: 1,
+                end_line: 1,
+              },
+            ],
+          }),
+        },
+      ],
+      logger: (message) => messages.push(message),
+    });
+
+    assert.ok(!result.nodes.some((n) => n.stable_id === 'nonexistent/file.ts::remoteTask'));
+    assert.ok(messages.some((m) => m.includes('nonexistent/file.ts is not an analyzed file')));
+    assertEdge(result, 'uses', 'src/Counter.tsx::Counter', 'src/store.ts::useCounter');
+  });
+});
+
+suite('State scanning', () => {
+  test('store factories are recognized by the package they are imported from', () => {
+    const sourceFile = parseSource(
+      [
+        "import { createSlice } from '@reduxjs/toolkit';",
+        "import { create as createStore } from 'zustand';",
+        "import { devtools } from 'zustand/middleware';",
+        "import { atom } from 'jotai';",
+        "import { createSlice as makeSlice } from './local';",
+        "const counter = createSlice({ name: 'counter', initialState: 0, reducers: { increment: (s) => s + 1 } });",
+        'const useBears = createStore<Bears>()(devtools((set) => ({ bears: 0, add() {}, reset: () => set({ bears: 0 }) })));',
+        'const countAtom = atom(0);',
+        "const notAStore = makeSlice({ name: 'x' });",
+      ].join('\n')
+    );
+    const definitions = sourceFile.statements.filter(ts.isVariableStatement).map((statement) => {
+      const initializer = statement.declarationList.declarations[0].initializer!;
+      return ts.isCallExpression(initializer) ? getStoreDefinition(sourceFile, initializer) : undefined;
+    });
+
+    assert.deepStrictEqual(definitions, [
+      { library: 'redux', kind: 'slice', sliceName: 'counter', actions: ['increment'] },
+      { library: 'zustand', kind: 'store', actions: ['add', 'reset'] },
+      { library: 'jotai', kind: 'atom', actions: [] },
+      undefined,
+    ]);
+  });
+
+  test('reads and writes are named as the code refers to them', () => {
+    const code = [
+      'const theme = useContext(ThemeContext);',
+      '<AuthContext.Provider value={user}>',
+      'const setCount = useSetAtom(countAtom);',
+      'const bears = useBears((state) => state.bears);',
+      'const add = useBears((state) => state.add);',
+      'const total = useSelector((state) => state.cart.total);',
+      'const items = useSelector(selectItems);',
+      'dispatch(counter.actions.increment());',
+      "useOther(ThemeContext); emit('dispatch(nothing)');",
+    ].join('\n');
+
+    assert.deepStrictEqual(findStateUses(code, new Map([['useBears', ['add']]])), [
+      { library: 'react', mode: 'read', name: 'ThemeContext' },
+      { library: 'react', mode: 'write', name: 'AuthContext' },
+      { library: 'jotai', mode: 'write', name: 'countAtom' },
+      { library: 'zustand', mode: 'read', name: 'useBears' },
+      { library: 'zustand', mode: 'write', name: 'useBears' },
+      { library: 'redux', mode: 'read', sliceName: 'cart' },
+      { library: 'redux', mode: 'read', name: 'selectItems' },
+      { library: 'redux', mode: 'write', name: 'counter', action: 'increment' },
+    ]);
+  });
+});
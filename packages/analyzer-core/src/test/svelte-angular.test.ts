@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import * as ts from 'typescript';
+import { getAngularComponent, getElementSelectors, templateRenders } from '../angular';
+import { findFormActions, getSvelteKitRoute, getSvelteProps } from '../svelte';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+suite('Svelte and Angular', () => {
+  test('Svelte components and SvelteKit pages and endpoints', async () => {
+    const result = await analyzeFixture({
+      'package.json': JSON.stringify({ dependencies: { '@sveltejs/kit': '^2.0.0' } }),
+      'src/lib/Card.svelte': '<script lang="ts">\n  export let title: string;\n</script>\n\n<div>{title}</div>\n',
+      'src/routes/blog/+page.svelte': [
+        '<script lang="ts">',
+        "  import Card from '$lib/Card.svelte';",
+        '</script>',
+        '',
+        '<Card title="hi" />',
+      ].join('\n'),
+      'src/routes/blog/+server.ts': "export async function GET() {\n  return new Response('[]');\n}\n",
+    });
+
+    const card = getNode(result, 'src/lib/Card.svelte::Card');
+    assert.deepStrictEqual([card.node_type, card.metadata?.props], ['component', ['title']]);
+    const page = getNode(result, 'src/routes/blog/+page.svelte::Page');
+    assert.deepStrictEqual([page.metadata?.route, page.metadata?.routeKind], ['/blog', 'page']);
+    assertEdge(result, 'imports', 'src/routes/blog/+page.svelte', 'src/lib/Card.svelte');
+    assertEdge(result, 'uses', 'src/routes/blog/+page.svelte::Page', 'src/lib/Card.svelte::Card');
+    assert.strictEqual(getNode(result, 'src/routes/blog/+server.ts::GET /blog').node_type, 'endpoint');
+  });
+
+  test('Angular components link through template selectors', async () => {
+    const component = (name: string, selector: string, template: string) =>
+      [
+        "import { Component } from '@angular/core';",
+        '',
+        '@Component({',
+        `  selector: '${selector}',`,
+        `  template: '${template}',`,
+        '})',
+        `export class ${name} {}`,
+      ].join('\n');
+    const result = await analyzeFixture({
+      'src/app/badge.component.ts': component('BadgeComponent', 'app-badge', '<span>badge</span>'),
+      'src/app/header.component.ts': component('HeaderComponent', 'app-header', '<header><app-badge></app-badge></header>'),
+    });
+
+    const badge = getNode(result, 'src/app/badge.component.ts::BadgeComponent');
+    assert.deepStrictEqual([badge.node_type, badge.metadata?.selector], ['component', 'app-badge']);
+    assertEdge(result, 'uses', 'src/app/header.component.ts::HeaderComponent', 'src/app/badge.component.ts::BadgeComponent');
+  });
+});
+
+suite('Svelte and Angular scanning', () => {
+  test('SvelteKit routes, component props and form actions', () => {
+    assert.deepStrictEqual(getSvelteKitRoute('src/routes/blog/[slug]/+page.server.ts'), {
+      kind: 'page',
+      data: true,
+      route: '/blog/[slug]',
+    });
+    assert.deepStrictEqual(getSvelteKitRoute('src/routes/(app)/+layout.svelte'), {
+      kind: 'layout',
+      data: false,
+      route: '/',
+    });
+    assert.strictEqual(getSvelteKitRoute('src/lib/+page.svelte'), undefined);
+    assert.strictEqual(getSvelteKitRoute('src/routes/blog/helpers.ts'), undefined);
+
+    const props = parseSource(
+      [
+        'export let title: string;',
+        'export const max = 3;',
+        'let { size, ...rest } = $props();',
+        'let open = false;',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(getSvelteProps(props), ['title', 'size', 'rest']);
+
+    const actions = parseSource(
+      [
+        'export const actions = {',
+        '  default: async ({ request }) => {},',
+        '  async create() {},',
+        '};',
+        'const helpers = { remove: () => {} };',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(
+      findFormActions(actions, '/todos').map((e) => `${e.method} ${e.route}`),
+      ['POST /todos', 'POST /todos?/create']
+    );
+  });
+
+  test('Angular component options, element selectors and template matches', () => {
+    const [component, plain] = parseSource(
+      [
+        "@Component({ selector: 'app-card, [appCard]', templateUrl: './card.html' })",
+        'export class CardComponent {}',
+        '@Injectable()',
+        'export class CardService {}',
+      ].join('\n')
+    ).statements.filter(ts.isClassDeclaration);
+
+    assert.deepStrictEqual(getAngularComponent(component), {
+      selector: 'app-card, [appCard]',
+      template: undefined,
+      templateUrl: './card.html',
+    });
+    assert.strictEqual(getAngularComponent(plain), undefined);
+    assert.deepStrictEqual(getElementSelectors('app-card, [appCard], .card'), ['app-card']);
+    assert.ok(templateRenders('<div><app-card [title]="t"></app-card></div>', 'app-card'));
+    assert.ok(templateRenders('<app-card/>', 'app-card'));
+    assert.ok(!templateRenders('<app-card-list></app-card-list>', 'app-card'));
+  });
+});
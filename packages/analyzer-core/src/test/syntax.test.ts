@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, getNode } from './fixture';
+
+suite('Syntax-tree extraction', () => {
+  test('node boundaries ignore braces in strings, templates, comments and regexes', async () => {
+    const result = await analyzeFixture({
+      'src/Card.tsx': [
+        "import { memo, useState } from 'react';",
+        '',
+        '// function Fake() { return <div />; }',
+        'export function Card({ title }: { title: string }) {',
+        "  const label = `{${title}}`;",
+        "  const brace = '}';",
+        '  const pattern = /\\{+/;',
+        '  return <div>{label}{brace}{pattern.source}</div>;',
+        '}',
+        '',
+        'export const Badge = memo(() => <span />);',
+        '',
+        'export function useToggle(initial: boolean) {',
+        '  const [on, setOn] = useState(initial);',
+        '  return { on, toggle: () => setOn(!on) };',
+        '}',
+        '',
+        'export async function loadCards(): Promise<{ id: string }[]> {',
+        '  return [];',
+        '}',
+      ].join('\n'),
+    });
+
+    const card = getNode(result, 'src/Card.tsx::Card');
+    assert.strictEqual(card.node_type, 'component');
+    assert.deepStrictEqual([card.start_line, card.end_line], [4, 9]);
+    assert.strictEqual(getNode(result, 'src/Card.tsx::Badge').node_type, 'component');
+
+    const hook = getNode(result, 'src/Card.tsx::useToggle');
+    assert.strictEqual(hook.node_type, 'hook');
+    assert.deepStrictEqual([hook.start_line, hook.end_line], [13, 16]);
+
+    const load = getNode(result, 'src/Card.tsx::loadCards');
+    assert.strictEqual(load.node_type, 'function');
+    assert.deepStrictEqual([load.start_line, load.end_line], [18, 20]);
+
+    assert.ok(!result.nodes.some((n) => n.name === 'Fake'));
+  });
+
+  test('stable IDs are `file::name` and unexported helpers are left out by default', async () => {
+    const result = await analyzeFixture({
+      'src/util/format.ts': [
+        'function pad(value: string) {',
+        "  return value.padStart(2, '0');",
+        '}',
+        '',
+        'export function formatDate(date: Date) {',
+        '  return pad(String(date.getDate()));',
+        '}',
+      ].join('\n'),
+    });
+
+    const format = getNode(result, 'src/util/format.ts::formatDate');
+    assert.strictEqual(format.name, 'formatDate');
+    assert.strictEqual(format.qualified_name, 'src/util/format.ts::formatDate');
+    assert.strictEqual(format.file_path, 'src/util/format.ts');
+    assert.deepStrictEqual(format.metadata, { exported: true });
+    assert.ok(!result.nodes.some((n) => n.name === 'pad'));
+  });
+});
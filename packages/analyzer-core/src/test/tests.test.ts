@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, getNode } from './fixture';
+
+const files = {
+  'src/math.ts': 'export function add(a: number, b: number) {\n  return a + b;\n}\n\nexport function subtract(a: number, b: number) {\n  return a - b;\n}\n',
+  'src/math.test.ts': [
+    "import { add } from './math';",
+    '',
+    "describe('math', () => {",
+    "  it('adds', () => {",
+    '    expect(add(1, 2)).toBe(3);',
+    '  });',
+    '});',
+  ].join('\n'),
+};
+
+suite('Test files', () => {
+  test('test cases become test nodes linked to the code they exercise', async () => {
+    const result = await analyzeFixture(files, { includeTests: true });
+
+    const testNode = getNode(result, 'src/math.test.ts::math > adds');
+    assert.strictEqual(testNode.node_type, 'test');
+    assert.deepStrictEqual([testNode.start_line, testNode.end_line], [4, 6]);
+    assert.deepStrictEqual(assertEdge(result, 'uses', testNode.stable_id, 'src/math.ts::add').metadata, { test: true });
+    assert.strictEqual(getNode(result, 'src/math.ts::add').metadata?.tested, true);
+    assert.strictEqual(getNode(result, 'src/math.ts::subtract').metadata?.tested, false);
+  });
+
+  test('test files are skipped unless includeTests is set', async () => {
+    const result = await analyzeFixture(files);
+    assert.ok(!result.nodes.some((n) => n.file_path === 'src/math.test.ts'));
+  });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import { analyzeFixture, assertEdge, getNode } from './fixture';
+
+suite('Types and constants', () => {
+  test('exported interfaces, aliases, enums and const objects are referenced by the code using them', async () => {
+    const result = await analyzeFixture({
+      'src/contracts.ts': [
+        'export interface GraphData {',
+        '  nodes: string[];',
+        '}',
+        "export type NodeKind = 'a' | 'b';",
+        'export enum Status {',
+        '  Ready,',
+        '}',
+        'export const DEFAULTS = { limit: 10 };',
+      ].join('\n'),
+      'src/graph.ts': [
+        "import { GraphData, NodeKind, Status, DEFAULTS } from './contracts';",
+        '',
+        'export function buildGraph(kind: NodeKind): GraphData {',
+        '  const status = Status.Ready;',
+        '  return { nodes: [kind, String(status), String(DEFAULTS.limit)] };',
+        '}',
+      ].join('\n'),
+    });
+
+    assert.strictEqual(getNode(result, 'src/contracts.ts::GraphData').node_type, 'interface');
+    assert.strictEqual(getNode(result, 'src/contracts.ts::NodeKind').node_type, 'type');
+    assert.strictEqual(getNode(result, 'src/contracts.ts::Status').metadata?.kind, 'enum');
+    assert.strictEqual(getNode(result, 'src/contracts.ts::DEFAULTS').node_type, 'constant');
+
+    for (const name of ['GraphData', 'NodeKind', 'Status', 'DEFAULTS']) {
+      assertEdge(result, 'references', 'src/graph.ts::buildGraph', `src/contracts.ts::${name}`);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { suite, test } from 'node:test';
+import {
+  findGlobalComponents,
+  getVueComponentInterface,
+  getVueComponentName,
+  getVueTemplateTags,
+  toPascalCase,
+} from '../vue';
+import { analyzeFixture, assertEdge, getNode, parseSource } from './fixture';
+
+suite('Vue single-file components', () => {
+  test('props, emits and template usages across script blocks and global registration', async () => {
+    const result = await analyzeFixture({
+      'src/components/UserCard.vue': [
+        '<script setup lang="ts">',
+        'const props = defineProps<{ name: string; age?: number }>();',
+        "const emit = defineEmits(['select', 'close']);",
+        '</script>',
+        '',
+        '<template>',
+        `  <div @click="emit('select')">{{ props.name }}</div>`,
+        '</template>',
+      ].join('\n'),
+      'src/components/UserList.vue': [
+        '<script lang="ts">',
+        "export default { name: 'UserList' };",
+        '</script>',
+        '',
+        '<script setup lang="ts">',
+        "import UserCard from './UserCard.vue';",
+        '</script>',
+        '',
+        '<template>',
+        '  <BaseButton />',
+        '  <user-card name="a" />',
+        '</template>',
+      ].join('\n'),
+      'src/components/BaseButton.vue': '<template>\n  <button><slot /></button>\n</template>\n',
+      'src/main.ts': [
+        "import { createApp } from 'vue';",
+        "import BaseButton from './components/BaseButton.vue';",
+        '',
+        'const app = createApp({});',
+        "app.component('BaseButton', BaseButton);",
+      ].join('\n'),
+    });
+
+    const card = getNode(result, 'src/components/UserCard.vue::UserCard');
+    assert.deepStrictEqual(card.metadata?.props, ['name', 'age']);
+    assert.deepStrictEqual(card.metadata?.emits, ['select', 'close']);
+
+    // Both script blocks are read: the import lives in the second one
+    assertEdge(result, 'imports', 'src/components/UserList.vue', 'src/components/UserCard.vue');
+    assertEdge(result, 'uses', 'src/components/UserList.vue::UserList', 'src/components/UserCard.vue::UserCard');
+    assertEdge(result, 'uses', 'src/components/UserList.vue::UserList', 'src/components/BaseButton.vue::BaseButton');
+  });
+});
+
+suite('Vue scanning', () => {
+  test('component names, props and emits from script blocks', () => {
+    assert.strictEqual(getVueComponentName(['const x = 1;', "defineOptions({ name: 'UserCard' })"]), 'UserCard');
+    assert.strictEqual(getVueComponentName(["export default { props: [], name: 'Legacy' }"]), 'Legacy');
+    assert.strictEqual(getVueComponentName(["defineComponent('Named', {})"]), 'Named');
+    assert.strictEqual(getVueComponentName(['const name = "NotAComponent";']), undefined);
+
+    const setup = parseSource(
+      [
+        'interface Props { id: string; label?: string }',
+        'const props = withDefaults(defineProps<Props>(), { label: "" });',
+        "const emit = defineEmits<{ (e: 'change', id: string): void; (e: 'close'): void }>();",
+      ].join('\n')
+    );
+    assert.deepStrictEqual(getVueComponentInterface(setup), { props: ['id', 'label'], emits: ['change', 'close'] });
+
+    const options = parseSource("export default defineComponent({ props: { value: Number }, emits: ['input'] });");
+    assert.deepStrictEqual(getVueComponentInterface(options), { props: ['value'], emits: ['input'] });
+    assert.deepStrictEqual(getVueComponentInterface(parseSource('const props = { id: String };')), {
+      props: [],
+      emits: [],
+    });
+  });
+
+  test('template tags, global registrations and PascalCase names', () => {
+    const text = [
+      '<template>',
+      '  <div><user-card /><BaseButton>ok</BaseButton><span /></div>',
+      '  <template v-if="x"><Icon.Close /></template>',
+      '</template>',
+      '<script setup>const tag = "<NotATag>";</script>',
+    ].join('\n');
+    assert.deepStrictEqual(Array.from(getVueTemplateTags(text)), ['user-card', 'BaseButton', 'Icon.Close']);
+    assert.strictEqual(getVueTemplateTags('<div><UserCard /></div>').size, 0);
+
+    const main = parseSource(
+      [
+        "app.component('base-button', BaseButton);",
+        "app.component('Inline', { template: '<p/>' });",
+        'registry.component(name, Other);',
+      ].join('\n')
+    );
+    assert.deepStrictEqual(findGlobalComponents(main), [{ name: 'BaseButton', localName: 'BaseButton' }]);
+    assert.strictEqual(toPascalCase('user_card-list'), 'UserCardList');
+  });
+});
@@ -0,0 +1,128 @@
+import * as ts from 'typescript';
+import { FoundEndpoint, PendingMount } from './routes';
+import { escapeRegExp, getCallName, hasModifier, unwrapExpression } from './syntax';
+
+/**
+ * tRPC: procedures declared on `router({...})` objects, the routers nested in
+ * them, and client proxy calls that name a procedure by its dotted route.
+ */
+
+const TRPC_PROCEDURE_TYPES = ['query', 'mutation', 'subscription'];
+
+/** Calls on a tRPC client proxy path: React Query hooks, vanilla client and utils */
+const TRPC_CLIENT_METHODS = [
+  'useQuery',
+  'useSuspenseQuery',
+  'useInfiniteQuery',
+  'useSuspenseInfiniteQuery',
+  'useMutation',
+  'useSubscription',
+  'query',
+  'mutate',
+  'subscribe',
+  'fetch',
+  'prefetch',
+  'queryOptions',
+  'mutationOptions',
+];
+
+/**
+ * `router({ getUser: publicProcedure.query(...), post: postRouter })`: one endpoint
+ * per procedure, routed by its dotted path. Nested routers from other files are
+ * returned as mounts for the caller to prefix once every file is read.
+ */
+export function findTrpcProcedures(
+  sourceFile: ts.SourceFile,
+  filePath: string
+): { endpoints: FoundEndpoint[]; mounts: PendingMount[] } {
+  const endpoints: FoundEndpoint[] = [];
+  const mounts: PendingMount[] = [];
+
+  const collect = (routerCall: ts.CallExpression, routerId: string, prefix: string[], exported: boolean) => {
+    const [definition] = routerCall.arguments;
+    if (getCallName(routerCall) === 'mergeRouters') {
+      for (const arg of routerCall.arguments) {
+        if (ts.isIdentifier(arg)) mounts.push({ filePath, parentId: routerId, prefix: prefix.join('.'), childName: arg.text });
+      }
+      return;
+    }
+    if (!definition || !ts.isObjectLiteralExpression(definition)) return;
+
+    for (const property of definition.properties) {
+      if (!property.name || !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) continue;
+      const path = [...prefix, property.name.text];
+
+      if (ts.isShorthandPropertyAssignment(property)) {
+        mounts.push({ filePath, parentId: routerId, prefix: path.join('.'), childName: property.name.text });
+        continue;
+      }
+      if (!ts.isPropertyAssignment(property)) continue;
+
+      const value = unwrapExpression(property.initializer);
+      const procedureType =
+        ts.isCallExpression(value) && ts.isPropertyAccessExpression(value.expression)
+          ? value.expression.name.text
+          : undefined;
+      if (ts.isCallExpression(value) && procedureType && TRPC_PROCEDURE_TYPES.includes(procedureType)) {
+        const [resolver] = value.arguments;
+        endpoints.push({
+          method: procedureType.toUpperCase(),
+          route: path.join('.'),
+          node: property,
+          bodyStart: resolver?.getStart(sourceFile),
+          exported,
+          routerId,
+          api: 'trpc',
+        });
+      } else if (ts.isCallExpression(value) && isTrpcRouterCall(value)) {
+        collect(value, routerId, path, exported);
+      } else if (ts.isIdentifier(value)) {
+        mounts.push({ filePath, parentId: routerId, prefix: path.join('.'), childName: value.text });
+      }
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer && unwrapExpression(declaration.initializer);
+      if (!ts.isIdentifier(declaration.name) || !initializer || !ts.isCallExpression(initializer)) continue;
+      if (!isTrpcRouterCall(initializer)) continue;
+      collect(
+        initializer,
+        `${filePath}#${declaration.name.text}`,
+        [],
+        hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+      );
+    }
+  }
+  return { endpoints, mounts };
+}
+
+/**
+ * One global pattern for client calls of any of `routes`; group 1 is the route a
+ * call (`.user.getUser.useQuery(`) ends with.
+ */
+export function getTrpcClientPattern(routes: string[]): RegExp {
+  // The lookahead lets a call match every route it ends with (`.user.getUser` and `.getUser`)
+  const alternatives = routes.map(escapeRegExp).join('|');
+  const methods = TRPC_CLIENT_METHODS.join('|');
+  return new RegExp(`\\.(?=(${alternatives})\\.(?:${methods})\\s*\\()`, 'g');
+}
+
+/** `router({...})`, `t.router({...})`, `createTRPCRouter({...})`, `mergeRouters(a, b)` */
+function isTrpcRouterCall(call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  const name = ts.isIdentifier(callee)
+    ? callee.text
+    : ts.isPropertyAccessExpression(callee)
+      ? callee.name.text
+      : undefined;
+  if (name === 'mergeRouters') return true;
+  const [definition] = call.arguments;
+  return (
+    (name === 'router' || name === 'createTRPCRouter') &&
+    !!definition &&
+    ts.isObjectLiteralExpression(definition)
+  );
+}
@@ -39,9 +39,12 @@ export interface LocalNode {
   node_type: NodeType;
   language?: string;
   file_path: string;
+  /** 1-based; 0 for nodes without a location (external symbols, undeclared config keys) */
   start_line: number;
+  /** 0-based, as in VS Code positions */
   start_column?: number;
   end_line: number;
+  /** 0-based and exclusive: the character after the node's last one */
   end_column?: number;
   snippet?: string;
   signature?: string;
@@ -70,6 +73,12 @@ export interface GitHubInfo {
   branch: string;
 }
 
+/**
+ * How much code becomes nodes: exported symbols only, every top-level
+ * function and class, or also functions declared inside other functions
+ */
+export type Granularity = 'exported-only' | 'all-top-level' | 'all-including-nested';
+
 export interface AnalyzerOptions {
   /** Enable LLM-based analysis (requires geminiApiKey) */
   enableLlm?: boolean;
@@ -77,8 +86,60 @@ export interface AnalyzerOptions {
   geminiApiKey?: string;
   /** Gemini model name */
   geminiModel?: string;
+  /** Analyze test files into `test` nodes linked to the code they exercise */
+  includeTests?: boolean;
+  /**
+   * Drop barrel modules (files that only re-export) from the graph, pointing
+   * imports of them at the modules that define the imported names
+   */
+  collapseBarrels?: boolean;
+  /**
+   * Defaults to `exported-only`. Nodes the wider settings add are marked
+   * `metadata.private` so views can hide them
+   */
+  granularity?: Granularity;
+  /** Custom extractors run on every analyzed file after the built-in ones */
+  extractors?: Extractor[];
+  /**
+   * Also load extractors from `.monoid/extractors/*.js` in the analyzed
+   * directory. This runs code from that directory, so only enable it for
+   * trusted workspaces.
+   */
+  loadWorkspaceExtractors?: boolean;
   /** Logger callback */
   logger?: (message: string) => void;
   /** Progress callback */
   onProgress?: (message: string, percent: number) => void;
 }
+
+export interface ExtractorContext {
+  /** Root-relative path with forward slashes */
+  filePath: string;
+  text: string;
+  lines: string[];
+  /** Syntax tree for JS/TS files and `.vue` / `.svelte` scripts; undefined for other languages */
+  sourceFile?: import('typescript').SourceFile;
+  /** The TypeScript compiler API the syntax tree was built with */
+  ts: typeof import('typescript');
+  /** Write a line to the analysis log */
+  log: (message: string) => void;
+}
+
+export interface ExtractorResult {
+  /** `file_path` defaults to the extracted file; nodes in files that weren't analyzed are skipped */
+  nodes?: LocalNode[];
+  /** Edges may target nodes from any file; edges to unknown nodes are dropped after analysis */
+  edges?: LocalEdge[];
+}
+
+/**
+ * Plugin that adds nodes and edges for project-specific patterns
+ * (`defineJob(...)`, `createCommand(...)`).
+ */
+export interface Extractor {
+  /** Shown in the analysis log and stored as `metadata.extractor` on its nodes */
+  name: string;
+  /** Limits the extractor to matching file paths; defaults to every analyzed file */
+  filePattern?: RegExp;
+  extract(context: ExtractorContext): ExtractorResult | void | Promise<ExtractorResult | void>;
+}
@@ -0,0 +1,150 @@
+import * as ts from 'typescript';
+import { getCallName, unwrapExpression } from './syntax';
+
+/**
+ * Vue single-file components: the name a component registers under, the props
+ * and emits it declares, the tags its `<template>` renders, and components
+ * registered globally with `app.component()`.
+ */
+
+/**
+ * Name set in a component's script: `defineOptions({ name })`, an Options API
+ * `export default { name }` or `defineComponent({ name })` / `defineComponent('Name')`.
+ * The first block that sets one wins.
+ */
+export function getVueComponentName(scriptBlocks: string[]): string | undefined {
+  for (const scriptContent of scriptBlocks) {
+    const defineOptionsMatch = scriptContent.match(/defineOptions\s*\(\s*\{\s*name\s*:\s*['"]([^'"]+)['"]/);
+    if (defineOptionsMatch) return defineOptionsMatch[1];
+    const exportDefaultNameMatch = scriptContent.match(/export\s+default\s*\{[^}]*name\s*:\s*['"]([^'"]+)['"]/s);
+    if (exportDefaultNameMatch) return exportDefaultNameMatch[1];
+    const defineComponentMatch =
+      scriptContent.match(/defineComponent\s*\(\s*\{\s*name\s*:\s*['"]([^'"]+)['"]/) ??
+      scriptContent.match(/defineComponent\s*\(\s*['"]([^'"]+)['"]/);
+    if (defineComponentMatch) return defineComponentMatch[1];
+  }
+  return undefined;
+}
+
+/** `user-card` / `userCard` -> `UserCard` */
+export function toPascalCase(name: string): string {
+  return name
+    .split(/[-_\s]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Component-like tags in a Vue `<template>`: PascalCase or hyphenated, which
+ * excludes native HTML elements.
+ */
+export function getVueTemplateTags(text: string): Set<string> {
+  const start = text.indexOf('<template');
+  const end = text.lastIndexOf('</template>');
+  const tags = new Set<string>();
+  if (start === -1 || end <= start) return tags;
+
+  const template = text.slice(text.indexOf('>', start) + 1, end);
+  for (const match of template.matchAll(/<([A-Za-z][\w.-]*)/g)) {
+    const tag = match[1];
+    if (tag !== 'template' && (/^[A-Z]/.test(tag) || tag.includes('-'))) tags.add(tag);
+  }
+  return tags;
+}
+
+/**
+ * Props and emits declared by a Vue component: `defineProps<{ id: string }>()`,
+ * `defineProps({ id: String })`, `defineProps(['id'])` (optionally inside
+ * `withDefaults`), the same forms of `defineEmits` (including
+ * `(e: 'change', id: number): void` call signatures), and Options API
+ * `props` / `emits` on the default export.
+ */
+export function getVueComponentInterface(sourceFile: ts.SourceFile): { props: string[]; emits: string[] } {
+  const props = new Set<string>();
+  const emits = new Set<string>();
+
+  const getTypeMembers = (type: ts.TypeNode): readonly ts.TypeElement[] => {
+    if (ts.isTypeLiteralNode(type)) return type.members;
+    if (!ts.isTypeReferenceNode(type) || !ts.isIdentifier(type.typeName)) return [];
+    const typeName = type.typeName.text;
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) && statement.name.text === typeName) return statement.members;
+      if (ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName) {
+        return getTypeMembers(statement.type);
+      }
+    }
+    return [];
+  };
+
+  const addNames = (target: Set<string>, declaration: ts.Node | undefined, isEmits: boolean): void => {
+    if (!declaration) return;
+    if (ts.isArrayLiteralExpression(declaration)) {
+      for (const element of declaration.elements) {
+        if (ts.isStringLiteralLike(element)) target.add(element.text);
+      }
+    } else if (ts.isObjectLiteralExpression(declaration)) {
+      for (const property of declaration.properties) {
+        if (property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+          target.add(property.name.text);
+        }
+      }
+    } else if (ts.isTypeNode(declaration)) {
+      for (const member of getTypeMembers(declaration)) {
+        const [event] = ts.isCallSignatureDeclaration(member) ? member.parameters : [];
+        if (isEmits && event?.type && ts.isLiteralTypeNode(event.type) && ts.isStringLiteral(event.type.literal)) {
+          target.add(event.type.literal.text);
+        } else if (member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+          target.add(member.name.text);
+        }
+      }
+    }
+  };
+
+  const addOptions = (options: ts.Expression | undefined): void => {
+    if (!options || !ts.isObjectLiteralExpression(options)) return;
+    for (const property of options.properties) {
+      if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) continue;
+      if (property.name.text === 'props') addNames(props, property.initializer, false);
+      if (property.name.text === 'emits') addNames(emits, property.initializer, true);
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const callName = getCallName(node);
+      if (callName === 'defineProps' || callName === 'defineEmits') {
+        const target = callName === 'defineProps' ? props : emits;
+        addNames(target, node.typeArguments?.[0] ?? node.arguments[0], callName === 'defineEmits');
+      } else if (callName === 'defineComponent') {
+        addOptions(node.arguments[0]);
+      }
+    } else if (ts.isExportAssignment(node)) {
+      addOptions(unwrapExpression(node.expression));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { props: Array.from(props), emits: Array.from(emits) };
+}
+
+/** `app.component('BaseButton', BaseButton)`: the PascalCase name and the registered local */
+export function findGlobalComponents(sourceFile: ts.SourceFile): Array<{ name: string; localName: string }> {
+  if (!sourceFile.text.includes('.component(')) return [];
+  const found: Array<{ name: string; localName: string }> = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'component' &&
+      node.arguments.length === 2 &&
+      ts.isStringLiteral(node.arguments[0]) &&
+      ts.isIdentifier(node.arguments[1])
+    ) {
+      found.push({ name: toPascalCase(node.arguments[0].text), localName: node.arguments[1].text });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
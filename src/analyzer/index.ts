@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { analyzeDirectory } from '@monoid/analyzer-core';
 import { LLMAnalyzer } from './llmAnalyzer';
-import type { AnalysisResult, GitHubInfo } from '../types';
+import type { AnalysisResult, GitHubInfo, Granularity } from '../types';
 
 /**
  * Code Analyzer - Thin VS Code wrapper around @monoid/analyzer-core
@@ -20,13 +20,23 @@ export class CodeAnalyzer {
     workspaceFolder: vscode.WorkspaceFolder,
     progress?: vscode.Progress<{ message?: string; increment?: number }>,
     githubInfo?: GitHubInfo,
-    options?: { enableLlm?: boolean }
+    options?: {
+      enableLlm?: boolean;
+      includeTests?: boolean;
+      collapseBarrels?: boolean;
+      granularity?: Granularity;
+    }
   ): Promise<AnalysisResult> {
     const enableLlm = options?.enableLlm ?? false;
     const rootPath = workspaceFolder.uri.fsPath;
 
     // Run the core analyzer (no vscode dependency)
     const result = await analyzeDirectory(rootPath, githubInfo, {
+      includeTests: options?.includeTests,
+      collapseBarrels: options?.collapseBarrels,
+      granularity: options?.granularity,
+      // `.monoid/extractors/*.js` runs workspace code, so only in trusted workspaces
+      loadWorkspaceExtractors: vscode.workspace.isTrusted,
       logger: (msg: string) => {
         this.outputChannel.appendLine(msg);
         console.log(`[Monoid] ${msg}`);
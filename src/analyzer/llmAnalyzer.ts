@@ -369,7 +369,7 @@ Only include endpoints from the available list above. Use "source": "heuristic"
     const matched: LocalNode[] = [];
     
     for (const endpoint of endpoints) {
-      const endpointMatch = endpoint.name.match(/^(GET|POST|PUT|PATCH|DELETE)\s+(.+)$/);
+      const endpointMatch = endpoint.name.match(/^(GET|POST|PUT|PATCH|DELETE|ALL)\s+(.+)$/);
       if (!endpointMatch) { continue; }
       
       const endpointMethod = endpointMatch[1];
@@ -387,7 +387,7 @@ Only include endpoints from the available list above. Use "source": "heuristic"
                          normalizedApiPath.startsWith(endpointPath + '/') ||
                          this.fuzzyPathMatch(normalizedApiPath, endpointPath);
       
-      const methodsMatch = apiPath.method === endpointMethod;
+      const methodsMatch = apiPath.method === endpointMethod || endpointMethod === 'ALL';
       
       if (pathsMatch && methodsMatch) {
         matched.push(endpoint);
@@ -401,7 +401,10 @@ Only include endpoints from the available list above. Use "source": "heuristic"
     const normalize = (p: string) => p
       .replace(/\/route$/, '')
       .replace(/\[\w+\]/g, '*')
-      .replace(/\$\{[^}]+\}/g, '*');
+      .replace(/<(?:\w+:)?\w+>/g, '*')
+      .replace(/:\w+/g, '*')
+      .replace(/\$\{[^}]+\}/g, '*')
+      .replace(/\{\w+\}/g, '*');
     
     const normalizedApi = normalize(apiPath);
     const normalizedEndpoint = normalize(endpointPath);
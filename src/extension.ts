@@ -4,7 +4,7 @@ import { CodeAnalyzer } from './analyzer';
 import { SupabaseService } from './supabase/client';
 import { GraphViewProvider, GraphPanelManager } from './webview/graphViewProvider';
 import { testVSCodeLM } from './analyzer/llmAnalyzer';
-import { GitHubInfo } from './types';
+import { GitHubInfo, Granularity } from './types';
 import { getGitHubInfoFromGit } from './utils/gitUtils';
 import { writeLocalGraph, readLocalGraph } from './utils/localGraph';
 
@@ -191,6 +191,9 @@ async function visualizeAllCode(extensionUri: vscode.Uri): Promise<void> {
   // Auto-detect GitHub info from git remote, fall back to config
   const config = vscode.workspace.getConfiguration('monoid-visualize');
   const enableLlmEnrichment = config.get<boolean>('enableLlmEnrichment') ?? false;
+  const includeTests = config.get<boolean>('includeTests') ?? false;
+  const collapseBarrels = config.get<boolean>('collapseBarrels') ?? false;
+  const granularity = config.get<Granularity>('granularity') ?? 'exported-only';
   const gitInfo = await getGitHubInfoFromGit(workspaceFolder.uri.fsPath);
 
   const detectedOwner = gitInfo?.owner || config.get<string>('githubOwner');
@@ -219,6 +222,9 @@ async function visualizeAllCode(extensionUri: vscode.Uri): Promise<void> {
 
         const analysisResult = await analyzer.analyzeWorkspace(workspaceFolder, progress, githubInfo, {
           enableLlm: enableLlmEnrichment,
+          includeTests,
+          collapseBarrels,
+          granularity,
         });
         const nodeCount = analysisResult.nodes.length;
         const edgeCount = analysisResult.edges.length;
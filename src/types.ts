@@ -8,6 +8,7 @@ export type {
   AnalysisResult,
   GitHubInfo,
   AnalyzerOptions,
+  Granularity,
 } from '@monoid/analyzer-core/types';
 
 // Types specific to the extension (Supabase row types)
@@ -79,6 +79,56 @@ function detectCluster(filePath: string): 'frontend' | 'backend' | 'shared' | 'u
   return 'unknown';
 }
 
+/** What the webviews send with `openFile`: a node's span (1-based lines, 0-based columns) and name */
+interface NodeLocation {
+  filePath: string;
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  name?: string;
+}
+
+/**
+ * Opens a node's file and selects its name where it is declared: the first
+ * whole-word occurrence inside the node's span. Nodes whose name isn't in the
+ * source (`GET /users` endpoints, test titles) get the cursor at the span start.
+ */
+async function revealNode(location: NodeLocation, viewColumn: vscode.ViewColumn): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    return;
+  }
+  try {
+    const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, location.filePath);
+    const doc = await vscode.workspace.openTextDocument(fileUri);
+    const editor = await vscode.window.showTextDocument(doc, viewColumn);
+    const start = doc.validatePosition(new vscode.Position(Math.max(0, location.line - 1), location.column ?? 0));
+    const end =
+      location.endLine !== undefined
+        ? doc.validatePosition(new vscode.Position(Math.max(0, location.endLine - 1), location.endColumn ?? 0))
+        : doc.lineAt(start.line).range.end;
+    const range = findNameRange(doc, new vscode.Range(start, end), location.name) ?? new vscode.Range(start, start);
+    editor.selection = new vscode.Selection(range.start, range.end);
+    editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+  } catch (err) {
+    console.error('Could not open file:', err);
+  }
+}
+
+function findNameRange(doc: vscode.TextDocument, span: vscode.Range, name?: string): vscode.Range | undefined {
+  if (!name) {
+    return undefined;
+  }
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(doc.getText(span));
+  if (!match) {
+    return undefined;
+  }
+  const offset = doc.offsetAt(span.start) + match.index;
+  return new vscode.Range(doc.positionAt(offset), doc.positionAt(offset + name.length));
+}
+
 /**
  * Opens a webview panel that renders the graph from local .monoid/graph.json (no auth, no iframe).
  */
@@ -121,7 +171,7 @@ export class GraphPanelManager {
     this.panel.webview.onDidReceiveMessage(async (message) => {
       switch (message.type) {
         case 'openFile':
-          await this.openFile(message.filePath, message.line);
+          await revealNode(message, vscode.ViewColumn.Beside);
           break;
         case 'refresh':
           vscode.commands.executeCommand('monoid-visualize.visualizeAllCode');
@@ -169,23 +219,6 @@ export class GraphPanelManager {
     }
   }
 
-  private static async openFile(filePath: string, line: number): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      return;
-    }
-    try {
-      const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
-      const doc = await vscode.workspace.openTextDocument(fileUri);
-      const editor = await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
-      const position = new vscode.Position(Math.max(0, line - 1), 0);
-      editor.selection = new vscode.Selection(position, position);
-      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
-    } catch (err) {
-      console.error('Could not open file:', err);
-    }
-  }
-
   private static getWebviewContent(
     dashboardUrl: string,
     workspaceSlug: string,
@@ -340,6 +373,9 @@ export class GraphPanelManager {
   </div>
   <script>
     const vscode = acquireVsCodeApi();
+    function openFileMessage(n) {
+      return { type: 'openFile', filePath: n.file_path, line: n.start_line, column: n.start_column, endLine: n.end_line, endColumn: n.end_column, name: n.name };
+    }
     const graphData = ${graphJson};
     const CLUSTER_COLORS = ${JSON.stringify(CLUSTER_COLORS)};
     function detectCluster(filePath) {
@@ -401,6 +437,9 @@ export class GraphPanelManager {
           node_type: n.node_type || 'other',
           file_path: n.file_path,
           start_line: n.start_line,
+          start_column: n.start_column,
+          end_line: n.end_line,
+          end_column: n.end_column,
           cluster: n.cluster || detectCluster(n.file_path),
           x: Math.random() * 800 + 200,
           y: Math.random() * 500 + 150,
@@ -655,7 +694,7 @@ export class GraphPanelManager {
         if (detailPanelClose) detailPanelClose.onclick = hideDetailPanel;
         if (detailPanelOpenFile) detailPanelOpenFile.onclick = function() {
           if (selectedNode) {
-            vscode.postMessage({ type: 'openFile', filePath: selectedNode.file_path, line: selectedNode.start_line });
+            vscode.postMessage(openFileMessage(selectedNode));
           }
         };
         if (detailPanelCluster) detailPanelCluster.onchange = function() {
@@ -795,7 +834,7 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
           webviewView.webview.postMessage({ type: 'graphData', data: null });
         }
       } else if (message.type === 'openFile' && message.filePath !== undefined && message.line !== undefined) {
-        await this.openFile(message.filePath, message.line);
+        await revealNode(message, vscode.ViewColumn.One);
       } else if (
         message.type === 'updateNodeCluster' &&
         message.nodeId !== undefined &&
@@ -824,23 +863,6 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
-  private async openFile(filePath: string, line: number): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      return;
-    }
-    try {
-      const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
-      const doc = await vscode.workspace.openTextDocument(fileUri);
-      const editor = await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
-      const position = new vscode.Position(Math.max(0, line - 1), 0);
-      editor.selection = new vscode.Selection(position, position);
-      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
-    } catch (err) {
-      console.error('Could not open file:', err);
-    }
-  }
-
   private getSidebarHtml(): string {
     const nodeColorsJson = JSON.stringify(SIDEBAR_NODE_COLORS);
     const clusterColorsJson = JSON.stringify(CLUSTER_COLORS);
@@ -883,6 +905,9 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
   <div id="emptyState" class="empty" style="display:none;">Run &quot;Visualize All Code&quot; to generate a graph.</div>
   <script>
     const vscode = acquireVsCodeApi();
+    function openFileMessage(n) {
+      return { type: 'openFile', filePath: n.file_path, line: n.start_line, column: n.start_column, endLine: n.end_line, endColumn: n.end_column, name: n.name };
+    }
     const NODE_COLORS = ${nodeColorsJson};
     const CLUSTER_COLORS = ${clusterColorsJson};
 
@@ -923,7 +948,7 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
         var optionsHtml = CLUSTER_OPTIONS.map(function(c) {
           return '<option value="' + c + '"' + (c === cluster ? ' selected' : '') + '>' + c + '</option>';
         }).join('');
-        return '<div class="node-card" data-file="' + escapeAttr(n.file_path) + '" data-line="' + (n.start_line || 0) + '" data-node-id="' + escapeAttr(n.stable_id) + '" style="border-color:' + clusterColor + '40;background:' + clusterColor + '12;">' +
+        return '<div class="node-card" data-file="' + escapeAttr(n.file_path) + '" data-node-id="' + escapeAttr(n.stable_id) + '" style="border-color:' + clusterColor + '40;background:' + clusterColor + '12;">' +
           summary +
           '<div class="node-header">' +
             '<span class="node-type-dot" style="background:' + typeColor + '"></span>' +
@@ -934,14 +959,13 @@ export class GraphViewProvider implements vscode.WebviewViewProvider {
           '<div class="node-cluster"><label>Cluster</label><select class="node-cluster-select">' + optionsHtml + '</select></div>' +
         '</div>';
       }).join('');
-      list.querySelectorAll('.node-card').forEach(function(el) {
+      list.querySelectorAll('.node-card').forEach(function(el, index) {
         var card = el;
         var file = card.getAttribute('data-file');
-        var line = parseInt(card.getAttribute('data-line') || '1', 10);
         var nodeId = card.getAttribute('data-node-id');
         card.onclick = function(evt) {
           if (evt.target && evt.target.classList && evt.target.classList.contains('node-cluster-select')) return;
-          if (file) vscode.postMessage({ type: 'openFile', filePath: file, line: line });
+          if (file) vscode.postMessage(openFileMessage(data.nodes[index]));
         };
         var sel = card.querySelector('.node-cluster-select');
         if (sel && nodeId) {